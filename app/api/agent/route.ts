@@ -1,210 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server'
-import parseLLMJson from '@/lib/jsonParser'
+import { invokeAgentWithRepair, type AgentRequest } from '@/lib/agentService'
+import type { AgentStreamEvent } from '@/lib/aiAgent'
 
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+// Streams NDJSON: `partial` events while the agent writes, then one `done` event
+function streamResponse(request: AgentRequest) {
+  const encoder = new TextEncoder()
 
-// Types
-interface NormalizedAgentResponse {
-  status: 'success' | 'error'
-  result: Record<string, any>
-  message?: string
-  metadata?: {
-    agent_name?: string
-    timestamp?: string
-    [key: string]: any
-  }
-}
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: AgentStreamEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'))
 
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
-    const r = (Math.random() * 16) | 0
-    const v = c === 'x' ? r : (r & 0x3) | 0x8
-    return v.toString(16)
+      try {
+        const { body } = await invokeAgentWithRepair(request, {
+          onPartial: (result) => send({ type: 'partial', result }),
+        })
+        send({ type: 'done', response: body })
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Server error'
+        send({
+          type: 'done',
+          response: {
+            success: false,
+            response: { status: 'error', result: {}, message: errorMsg },
+            error: errorMsg,
+          },
+        })
+      } finally {
+        controller.close()
+      }
+    },
   })
-}
-
-function normalizeResponse(parsed: any): NormalizedAgentResponse {
-  if (!parsed) {
-    return {
-      status: 'error',
-      result: {},
-      message: 'Empty response from agent',
-    }
-  }
-
-  if (typeof parsed === 'string') {
-    return {
-      status: 'success',
-      result: { text: parsed },
-      message: parsed,
-    }
-  }
-
-  if (typeof parsed !== 'object') {
-    return {
-      status: 'success',
-      result: { value: parsed },
-      message: String(parsed),
-    }
-  }
-
-  if ('status' in parsed && 'result' in parsed) {
-    return {
-      status: parsed.status === 'error' ? 'error' : 'success',
-      result: parsed.result || {},
-      message: parsed.message,
-      metadata: parsed.metadata,
-    }
-  }
-
-  if ('status' in parsed) {
-    const { status, message, metadata, ...rest } = parsed
-    return {
-      status: status === 'error' ? 'error' : 'success',
-      result: Object.keys(rest).length > 0 ? rest : {},
-      message,
-      metadata,
-    }
-  }
-
-  if ('result' in parsed) {
-    return {
-      status: 'success',
-      result: parsed.result,
-      message: parsed.message,
-      metadata: parsed.metadata,
-    }
-  }
-
-  if ('message' in parsed && typeof parsed.message === 'string') {
-    return {
-      status: 'success',
-      result: { text: parsed.message },
-      message: parsed.message,
-    }
-  }
-
-  if ('response' in parsed) {
-    return normalizeResponse(parsed.response)
-  }
 
-  return {
-    status: 'success',
-    result: parsed,
-    message: undefined,
-    metadata: undefined,
-  }
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+    },
+  })
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { message, agent_id, user_id, session_id, assets } = body
-
-    if (!message || !agent_id) {
-      return NextResponse.json(
-        {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: 'message and agent_id are required',
-          },
-          error: 'message and agent_id are required',
-        },
-        { status: 400 }
-      )
-    }
+    const { message, agent_id, user_id, session_id, assets, stream } = body
 
-    if (!LYZR_API_KEY) {
-      return NextResponse.json(
-        {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: 'LYZR_API_KEY not configured',
-          },
-          error: 'LYZR_API_KEY not configured on server',
-        },
-        { status: 500 }
-      )
-    }
-
-    const finalUserId = user_id || `user-${generateUUID()}`
-    const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
-
-    const payload: Record<string, any> = {
-      message,
-      agent_id,
-      user_id: finalUserId,
-      session_id: finalSessionId,
+    if (stream) {
+      return streamResponse({ message, agent_id, user_id, session_id, assets })
     }
 
-    if (assets && assets.length > 0) {
-      payload.assets = assets
-    }
+    const { status, body: result } = await invokeAgentWithRepair({ message, agent_id, user_id, session_id, assets })
 
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify(payload),
-    })
-
-    const rawText = await response.text()
-
-    if (response.ok) {
-      const parsed = parseLLMJson(rawText)
-
-      if (parsed?.success === false && parsed?.error) {
-        return NextResponse.json({
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: parsed.error,
-          },
-          error: parsed.error,
-          raw_response: rawText,
-        })
-      }
-
-      const normalized = normalizeResponse(parsed)
-
-      return NextResponse.json({
-        success: true,
-        response: normalized,
-        agent_id,
-        user_id: finalUserId,
-        session_id: finalSessionId,
-        timestamp: new Date().toISOString(),
-        raw_response: rawText,
-      })
-    } else {
-      let errorMsg = `API returned status ${response.status}`
-      try {
-        const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-        errorMsg = errorData?.error || errorData?.message || errorMsg
-      } catch {}
-
-      return NextResponse.json(
-        {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: errorMsg,
-          },
-          error: errorMsg,
-          raw_response: rawText,
-        },
-        { status: response.status }
-      )
-    }
+    return NextResponse.json(result, { status })
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Server error'
     return NextResponse.json(
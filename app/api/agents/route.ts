@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { AGENTS } from '@/lib/agentRegistry'
+import { resolveProvider } from '@/lib/agentProviders'
+
+// Providers come from the environment at request time, not at build time
+export const dynamic = 'force-dynamic'
+
+// GET - List registered agents with the provider each one runs on
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    agents: AGENTS.map((agent) => ({ ...agent, provider: resolveProvider(agent.id).name })),
+    total: AGENTS.length,
+    timestamp: new Date().toISOString(),
+  })
+}
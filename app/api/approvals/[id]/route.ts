@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { decideApprovalRequest, getApprovalRequest } from '@/lib/approvalStore'
+import { validateApprovalDecision, type ApprovalDecisionInput } from '@/lib/approval'
+
+// GET - Fetch a single approval request
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const approval = await getApprovalRequest(params.id)
+
+    if (!approval) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Approval request not found',
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      request: approval,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Approve, reject or override a pending request
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = (await request.json()) as Partial<ApprovalDecisionInput>
+    const validationError = validateApprovalDecision(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const outcome = await decideApprovalRequest(params.id, body as ApprovalDecisionInput)
+
+    if (!outcome.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: outcome.error,
+        },
+        { status: outcome.status || 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      request: outcome.request,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listApprovalRequests } from '@/lib/approvalStore'
+import type { HumanDecisionStatus } from '@/lib/decisionEngine'
+
+const STATUSES: HumanDecisionStatus[] = ['PENDING', 'APPROVED', 'REJECTED', 'OVERRIDDEN']
+
+// GET - List approval requests, optionally by status or assessment
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as HumanDecisionStatus | null
+
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `status must be one of ${STATUSES.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const requests = await listApprovalRequests({
+      status: status || undefined,
+      assessment_id: searchParams.get('assessment_id') || undefined,
+    })
+
+    return NextResponse.json({
+      success: true,
+      requests,
+      total: requests.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
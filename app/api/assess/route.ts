@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runAssessment } from '@/lib/assessmentPipeline'
+import { saveAssessment } from '@/lib/assessmentStore'
+import { DEFAULT_ENSEMBLE_CONFIG, ENSEMBLE_STRATEGIES, MAX_ENSEMBLE_SIZE, type EnsembleConfig } from '@/lib/ensemble'
+
+// POST - Run Worker → Sentinel → Decision Engine for a task
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Request body must be a JSON object',
+        },
+        { status: 400 }
+      )
+    }
+
+    const { task, user_id } = body
+    const ensemble: EnsembleConfig | undefined = body.ensemble ? { ...DEFAULT_ENSEMBLE_CONFIG, ...body.ensemble } : undefined
+
+    if (typeof task !== 'string' || !task.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'task is required',
+        },
+        { status: 400 }
+      )
+    }
+
+    if (body.ensemble && (typeof body.ensemble !== 'object' || Array.isArray(body.ensemble))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'ensemble must be an object',
+        },
+        { status: 400 }
+      )
+    }
+
+    if (ensemble && (!ENSEMBLE_STRATEGIES.includes(ensemble.strategy) || !(ensemble.size >= 1 && ensemble.size <= MAX_ENSEMBLE_SIZE))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `ensemble.strategy must be one of ${ENSEMBLE_STRATEGIES.join(', ')} and ensemble.size between 1 and ${MAX_ENSEMBLE_SIZE}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    // Each listed agent is one more parallel Sentinel call
+    if (
+      ensemble?.agent_ids !== undefined &&
+      (!Array.isArray(ensemble.agent_ids) ||
+        !ensemble.agent_ids.every((id) => typeof id === 'string' && id.trim()) ||
+        ensemble.agent_ids.length > MAX_ENSEMBLE_SIZE)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `ensemble.agent_ids must be a list of at most ${MAX_ENSEMBLE_SIZE} agent IDs`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const outcome = await runAssessment(task, { user_id, ensemble })
+
+    if (!outcome.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          stage: outcome.stage,
+          error: outcome.error,
+          issues: outcome.issues,
+        },
+        { status: outcome.status }
+      )
+    }
+
+    const assessment = await saveAssessment(outcome.assessment)
+
+    return NextResponse.json({
+      success: true,
+      assessment_id: assessment.id,
+      task: assessment.task,
+      plan: assessment.plan,
+      risk_scores: assessment.sentinel.risk_scores,
+      risk_explanations: assessment.sentinel.risk_explanations,
+      ensemble: assessment.sentinel.ensemble,
+      verdict: assessment.verdict,
+      agents: assessment.agents,
+      sessions: assessment.sessions,
+      started_at: assessment.started_at,
+      timestamp: assessment.completed_at,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
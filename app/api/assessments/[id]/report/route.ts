@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAssessment } from '@/lib/assessmentStore'
+import { exportAssessmentReport } from '@/lib/reportSigning'
+import { REPORT_FORMATS, type ReportFormat } from '@/lib/report'
+
+// GET - Export a stored assessment as a signed Markdown, JSON or printable HTML report
+// ?format=md|json|html (default md), &download=1 to save as a file, &print=1 to open the print dialog (html)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get('format') || 'md') as ReportFormat
+
+    if (!REPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `format must be one of ${REPORT_FORMATS.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const assessment = await getAssessment(params.id)
+
+    if (!assessment) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Assessment not found',
+        },
+        { status: 404 }
+      )
+    }
+
+    const report = exportAssessmentReport(assessment, format, { print: searchParams.get('print') === '1' })
+
+    return new Response(report.content, {
+      headers: {
+        'Content-Type': report.contentType,
+        'Content-Disposition': `${searchParams.get('download') === '1' ? 'attachment' : 'inline'}; filename="${report.fileName}"`,
+        'X-Report-Hash': `${report.integrity.algorithm}:${report.integrity.hash}`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAssessment } from '@/lib/assessmentStore'
+
+// GET - Fetch a single stored assessment
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const assessment = await getAssessment(params.id)
+
+    if (!assessment) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Assessment not found',
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      assessment,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listAssessments, saveAssessment } from '@/lib/assessmentStore'
+import { DEFAULT_DECISION_POLICY, VERDICT_TYPES, type VerdictType } from '@/lib/decisionEngine'
+import { calculateEnsembleVerdict } from '@/lib/ensemble'
+import { validateSentinelOutput, validateWorkerOutput } from '@/lib/agentOutput'
+import { formatSchemaIssues } from '@/lib/responseSchema'
+import { rollUpStepScores } from '@/lib/stepScoring'
+import { getScanFloors, scanPlan, scanText, type ScanFinding } from '@/lib/contentScanner'
+import type {
+  AssessmentAgents,
+  AssessmentClarification,
+  AssessmentRevision,
+  AssessmentSessions,
+} from '@/lib/assessment'
+
+// GET - List stored assessments with optional filters
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const verdict = searchParams
+      .getAll('verdict')
+      .flatMap((value) => value.split(','))
+      .filter((value): value is VerdictType => VERDICT_TYPES.includes(value as VerdictType))
+    const limit = Number(searchParams.get('limit')) || undefined
+
+    const assessments = await listAssessments({
+      verdict,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      action_tag: searchParams.get('action_tag') || undefined,
+      query: searchParams.get('q') || undefined,
+      limit,
+    })
+
+    return NextResponse.json({
+      success: true,
+      assessments,
+      total: assessments.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/
+
+const isIsoTimestamp = (value: unknown): value is string =>
+  typeof value === 'string' && ISO_TIMESTAMP.test(value) && !Number.isNaN(Date.parse(value))
+
+/**
+ * Shape problems in a posted assessment, checked before anything is stored
+ */
+function validateAssessmentBody(body: Record<string, unknown>): string[] {
+  const errors: string[] = []
+
+  if (typeof body.task !== 'string' || !body.task.trim()) errors.push('task must be a non-empty string')
+  if (body.started_at !== undefined && !isIsoTimestamp(body.started_at)) errors.push('started_at must be an ISO-8601 timestamp')
+
+  const plan = validateWorkerOutput({ plan: body.plan })
+  if (!plan.valid) errors.push(`plan: ${formatSchemaIssues(plan.issues)}`)
+
+  const sentinel = validateSentinelOutput(body.sentinel)
+  if (!sentinel.valid) errors.push(`sentinel: ${formatSchemaIssues(sentinel.issues)}`)
+
+  const ensemble = isObject(body.sentinel) ? body.sentinel.ensemble : undefined
+  if (
+    ensemble !== undefined &&
+    (!isObject(ensemble) || !Array.isArray(ensemble.evaluations) || !Array.isArray(ensemble.disagreements) || !isObject(ensemble.spread))
+  ) {
+    errors.push('sentinel.ensemble must have evaluations, disagreements and spread')
+  }
+
+  if (!isObject(body.agents) || typeof body.agents.worker_agent_id !== 'string' || typeof body.agents.sentinel_agent_id !== 'string') {
+    errors.push('agents.worker_agent_id and agents.sentinel_agent_id are required')
+  }
+  if (body.sessions !== undefined && !isObject(body.sessions)) errors.push('sessions must be an object')
+  if (body.findings !== undefined && !Array.isArray(body.findings)) errors.push('findings must be an array')
+  if (body.revision !== undefined && (!isObject(body.revision) || typeof body.revision.iteration !== 'number')) {
+    errors.push('revision.iteration must be a number')
+  }
+  const clarification = body.clarification
+  if (
+    clarification !== undefined &&
+    (!isObject(clarification) ||
+      !Array.isArray(clarification.answers) ||
+      !isObject(clarification.previous_verdict) ||
+      !VERDICT_TYPES.includes(clarification.previous_verdict.type as VerdictType))
+  ) {
+    errors.push('clarification must have answers and a previous_verdict')
+  }
+
+  return errors
+}
+
+// POST - Store a client-run assessment, with the verdict recomputed from its scores
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (!isObject(body)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Request body must be a JSON object',
+        },
+        { status: 400 }
+      )
+    }
+
+    const errors = validateAssessmentBody(body)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid assessment',
+          errors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const task = body.task as string
+    const plan = validateWorkerOutput({ plan: body.plan }).value
+    const sentinel = rollUpStepScores(validateSentinelOutput(body.sentinel).value)
+    const completedAt = new Date().toISOString()
+
+    // The posted findings were taken before redaction; rescan what is stored in case it was not redacted
+    const postedTaskFindings = ((body.findings || []) as ScanFinding[]).filter((finding) => finding?.source === 'task')
+    const storedTaskFindings = scanText(task)
+    const findings = [...(storedTaskFindings.length > 0 ? storedTaskFindings : postedTaskFindings), ...scanPlan(plan)]
+
+    // Never trust a client verdict: the audit log records what the policy decides
+    const verdict = calculateEnsembleVerdict(sentinel, DEFAULT_DECISION_POLICY, {
+      task,
+      plan,
+      floors: getScanFloors(findings),
+    })
+
+    // The plan and scores are as the browser reported them, so the record says so
+    const assessment = await saveAssessment({
+      task,
+      plan,
+      sentinel,
+      verdict,
+      agents: body.agents as AssessmentAgents,
+      sessions: (body.sessions || {}) as AssessmentSessions,
+      revision: body.revision as AssessmentRevision | undefined,
+      clarification: body.clarification as AssessmentClarification | undefined,
+      findings,
+      source: 'client',
+      started_at: (body.started_at as string | undefined) || completedAt,
+      completed_at: completedAt,
+    })
+
+    return NextResponse.json({
+      success: true,
+      assessment,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAssessmentChain } from '@/lib/assessmentStore'
+
+// GET - Walk the hash chain over stored assessments and report broken or missing links
+// ?head=<hash> from an earlier check also detects records removed from the end
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const verification = await verifyAssessmentChain(searchParams.get('head') || undefined)
+
+    return NextResponse.json({
+      success: true,
+      ...verification,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
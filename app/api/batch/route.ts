@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseBatchFile, summarizeBatch, type BatchStreamEvent } from '@/lib/batch'
+import { DEFAULT_BATCH_CONCURRENCY, runBatch } from '@/lib/batchRunner'
+
+const MAX_CONCURRENCY = 10
+
+// POST - Assess every task in an uploaded CSV or JSONL file
+// Streams NDJSON: one `result` event per task as it finishes, then a `done` event with the summary
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const user_id = (formData.get('user_id') as string) || undefined
+    const concurrency = Math.min(Number(formData.get('concurrency')) || DEFAULT_BATCH_CONCURRENCY, MAX_CONCURRENCY)
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'file is required',
+        },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseBatchFile(await file.text(), file.name)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Could not read ${file.name}`,
+          errors: parsed.errors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: BatchStreamEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'))
+
+        const results = await runBatch(parsed.tasks, {
+          user_id,
+          concurrency,
+          onResult: (result) => send({ type: 'result', result }),
+        })
+        send({ type: 'done', summary: summarizeBatch(results) })
+        controller.close()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+      },
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PROVIDER_NAMES, type ProviderName } from '@/lib/agentProviders'
+import { GOLDEN_SET, validateGoldenSet, type GoldenSet } from '@/lib/regression'
+import { listRegressionRuns, runRegression } from '@/lib/regressionRunner'
+
+// GET - Recent regression runs, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const runs = await listRegressionRuns(Number(searchParams.get('limit')) || undefined)
+
+    return NextResponse.json({
+      success: true,
+      runs,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Run the golden set (or one supplied in the body) and store the results
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Request body must be a JSON object',
+        },
+        { status: 400 }
+      )
+    }
+
+    const provider: ProviderName | undefined = body.provider || undefined
+    const goldenSet: GoldenSet = body.golden_set || GOLDEN_SET
+
+    if (provider && !PROVIDER_NAMES.includes(provider)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `provider must be one of ${PROVIDER_NAMES.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const errors = validateGoldenSet(goldenSet)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid golden set',
+          errors,
+        },
+        { status: 400 }
+      )
+    }
+
+    const run = await runRegression(goldenSet, { provider })
+
+    return NextResponse.json({
+      success: true,
+      run,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
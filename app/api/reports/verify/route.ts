@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyReport } from '@/lib/reportSigning'
+
+// POST - Check an exported report against its content hash
+// Body: JSON { content: "<report file>" }, or the report file itself with any other content type
+export async function POST(request: NextRequest) {
+  try {
+    const isJson = (request.headers.get('content-type') || '').includes('application/json')
+    const content: unknown = isJson ? (await request.json())?.content : await request.text()
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'report content is required',
+        },
+        { status: 400 }
+      )
+    }
+
+    const verification = verifyReport(content)
+
+    return NextResponse.json({
+      success: true,
+      ...verification,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowRun } from '@/lib/workflowEngine'
+
+// GET - Per-node status of a workflow run
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const run = await getWorkflowRun(params.id)
+
+    if (!run) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow run not found',
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      run,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_WORKFLOW, executeWorkflow } from '@/lib/workflowEngine'
+
+// POST - Execute a workflow graph (default: workflow.json) for a task
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Request body must be a JSON object',
+        },
+        { status: 400 }
+      )
+    }
+
+    const { task, user_id, workflow } = body
+
+    if (typeof task !== 'string' || !task.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'task is required',
+        },
+        { status: 400 }
+      )
+    }
+
+    if (workflow !== undefined && (typeof workflow !== 'object' || workflow === null || Array.isArray(workflow))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'workflow must be an object',
+        },
+        { status: 400 }
+      )
+    }
+
+    const outcome = await executeWorkflow(workflow || DEFAULT_WORKFLOW, { task, user_id })
+
+    if (!outcome.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: outcome.error,
+          run: outcome.run,
+        },
+        { status: outcome.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      run: outcome.run,
+      timestamp: outcome.run.completed_at,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { fetchApprovalRequests, submitApprovalDecision } from '@/lib/approvalQueue'
+import { VERDICT_TYPES, type HumanDecisionStatus, type VerdictType } from '@/lib/decisionEngine'
+import type { ApprovalAction, ApprovalRequest } from '@/lib/approval'
+import { getHumanDecisionColor, getVerdictBg, getVerdictBorder, getVerdictColor } from '@/lib/sentinelStyles'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { ArrowLeft, CheckCircle, Gavel, Loader2, ShieldAlert, XCircle } from 'lucide-react'
+
+const STATUS_TABS: (HumanDecisionStatus | 'ALL')[] = ['PENDING', 'APPROVED', 'REJECTED', 'OVERRIDDEN', 'ALL']
+const REVIEWER_STORAGE_KEY = 'sentinel-reviewer'
+
+function DecisionForm({
+  request,
+  reviewer,
+  onDecided,
+}: {
+  request: ApprovalRequest
+  reviewer: string
+  onDecided: (request: ApprovalRequest) => void
+}) {
+  const [justification, setJustification] = useState('')
+  const [overrideVerdict, setOverrideVerdict] = useState<VerdictType>('APPROVE_WITH_NOTICE')
+  const [submitting, setSubmitting] = useState<ApprovalAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const decide = async (action: ApprovalAction) => {
+    setSubmitting(action)
+    setError(null)
+
+    const result = await submitApprovalDecision(request.id, {
+      action,
+      reviewer,
+      justification,
+      override_verdict: action === 'OVERRIDE' ? overrideVerdict : undefined,
+    })
+
+    if (result.success && result.request) {
+      onDecided(result.request)
+    } else {
+      setError(result.error || 'Failed to record decision')
+    }
+
+    setSubmitting(null)
+  }
+
+  const disabled = submitting !== null || !reviewer.trim() || !justification.trim()
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-gray-700/50">
+      <textarea
+        value={justification}
+        onChange={(e) => setJustification(e.target.value)}
+        rows={3}
+        placeholder="Written justification (required)..."
+        className="w-full p-3 bg-gray-800/50 border border-gray-600/50 rounded-lg text-sm text-white placeholder-gray-500 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+      />
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button onClick={() => decide('APPROVE')} disabled={disabled} className="bg-emerald-600 hover:bg-emerald-700">
+          {submitting === 'APPROVE' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+          Approve
+        </Button>
+        <Button onClick={() => decide('REJECT')} disabled={disabled} className="bg-red-600 hover:bg-red-700">
+          {submitting === 'REJECT' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <XCircle className="w-4 h-4 mr-2" />}
+          Reject
+        </Button>
+        <div className="flex items-center gap-2 ml-auto">
+          <select
+            value={overrideVerdict}
+            onChange={(e) => setOverrideVerdict(e.target.value as VerdictType)}
+            className="h-10 rounded-md border px-3 text-sm bg-gray-800/50 border-gray-600/50 text-white"
+          >
+            {VERDICT_TYPES.filter((type) => type !== request.verdict.type).map((type) => (
+              <option key={type} value={type}>
+                {type.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+          <Button onClick={() => decide('OVERRIDE')} disabled={disabled} className="bg-purple-600 hover:bg-purple-700">
+            {submitting === 'OVERRIDE' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Gavel className="w-4 h-4 mr-2" />}
+            Override
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function ApprovalsPage() {
+  const [status, setStatus] = useState<HumanDecisionStatus | 'ALL'>('PENDING')
+  const [requests, setRequests] = useState<ApprovalRequest[]>([])
+  const [reviewer, setReviewer] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRequests = async (activeStatus: HumanDecisionStatus | 'ALL') => {
+    setLoading(true)
+    setError(null)
+
+    const result = await fetchApprovalRequests(activeStatus === 'ALL' ? {} : { status: activeStatus })
+
+    if (result.success) {
+      setRequests(result.requests || [])
+    } else {
+      setError(result.error || 'Failed to load approval queue')
+    }
+
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    setReviewer(window.localStorage.getItem(REVIEWER_STORAGE_KEY) || '')
+  }, [])
+
+  useEffect(() => {
+    loadRequests(status)
+  }, [status])
+
+  const updateReviewer = (value: string) => {
+    setReviewer(value)
+    window.localStorage.setItem(REVIEWER_STORAGE_KEY, value)
+  }
+
+  const handleDecided = (decided: ApprovalRequest) => {
+    setRequests((prev) =>
+      status === 'ALL' || status === decided.decision.status
+        ? prev.map((request) => (request.id === decided.id ? decided : request))
+        : prev.filter((request) => request.id !== decided.id)
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0f1a] via-[#0d1420] to-[#0a0f1a] text-white p-6 md:p-8 lg:p-12">
+      <div className="max-w-[1200px] mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <ShieldAlert className="w-10 h-10 text-amber-400" />
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold bg-gradient-to-r from-amber-400 via-orange-400 to-red-400 bg-clip-text text-transparent">
+                APPROVAL QUEUE
+              </h1>
+              <p className="text-sm text-gray-500 mt-1 font-mono">Human sign-off for BLOCK and MODIFY verdicts</p>
+            </div>
+          </div>
+          <Button asChild variant="outline" className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Sentinel
+            </Link>
+          </Button>
+        </div>
+
+        {/* Reviewer & status */}
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <label className="space-y-1 text-xs text-gray-500 font-mono md:w-72">
+            <span>Reviewer</span>
+            <Input
+              value={reviewer}
+              onChange={(e) => updateReviewer(e.target.value)}
+              placeholder="Name or email"
+              className="bg-gray-800/50 border-gray-600/50 text-white placeholder-gray-500"
+            />
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setStatus(tab)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-mono font-semibold border transition-all ${
+                  status === tab ? 'border-blue-500/50 bg-blue-500/10 text-blue-300' : 'border-gray-700/50 text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {tab}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-gradient-to-r from-red-500/10 to-red-600/5 border border-red-500/50 rounded-xl p-4 text-red-300">{error}</div>
+        )}
+
+        {loading && (
+          <div className="flex justify-center py-20">
+            <Loader2 className="w-10 h-10 animate-spin text-blue-400" />
+          </div>
+        )}
+
+        {!loading && requests.length === 0 && (
+          <div className="text-center py-20 text-gray-500">
+            <ShieldAlert className="w-12 h-12 mx-auto mb-4 opacity-30" />
+            <p className="text-sm font-mono">No approval requests</p>
+          </div>
+        )}
+
+        {!loading &&
+          requests.map((request) => (
+            <Card key={request.id} className={`bg-gray-900/40 border backdrop-blur-xl ${getVerdictBorder(request.verdict.type)}`}>
+              <CardContent className="p-5 space-y-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className={`px-3 py-1 rounded-lg text-xs font-mono font-bold border ${getVerdictBg(request.verdict.type)} ${getVerdictBorder(request.verdict.type)} ${getVerdictColor(request.verdict.type)}`}>
+                    {request.verdict.type.replace(/_/g, ' ')}
+                  </span>
+                  <span className={`px-3 py-1 rounded-lg text-xs font-mono font-semibold border ${getHumanDecisionColor(request.decision.status)}`}>
+                    {request.decision.status}
+                  </span>
+                  <span className="text-xs text-gray-500 font-mono ml-auto">{new Date(request.created_at).toLocaleString()}</span>
+                </div>
+
+                <p className="text-sm text-gray-300 leading-relaxed">{request.task}</p>
+
+                <ul className="space-y-1">
+                  {request.verdict.triggeredRules.map((rule, idx) => (
+                    <li key={idx} className="text-xs text-gray-400 flex items-start gap-2">
+                      <span className={getVerdictColor(request.verdict.type)}>▸</span>
+                      <span>{rule}</span>
+                    </li>
+                  ))}
+                </ul>
+
+                <Link href={`/assessments/${request.assessment_id}`} className="text-xs font-mono text-blue-400 hover:text-blue-300">
+                  View assessment {request.assessment_id.substring(0, 8)}
+                </Link>
+
+                {request.decision.status === 'PENDING' ? (
+                  <DecisionForm request={request} reviewer={reviewer} onDecided={handleDecided} />
+                ) : (
+                  <div className="text-xs text-gray-400 space-y-1 pt-3 border-t border-gray-700/50">
+                    <p>
+                      <span className="text-gray-500">Reviewer:</span> {request.decision.reviewer}
+                      <span className="text-gray-500 ml-3">Decided:</span>{' '}
+                      {request.decision.decided_at && new Date(request.decision.decided_at).toLocaleString()}
+                    </p>
+                    {request.decision.override_verdict && (
+                      <p>
+                        <span className="text-gray-500">Overridden to:</span>{' '}
+                        <span className={getVerdictColor(request.decision.override_verdict)}>
+                          {request.decision.override_verdict.replace(/_/g, ' ')}
+                        </span>
+                      </p>
+                    )}
+                    <p className="text-gray-300 leading-relaxed">{request.decision.justification}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+      </div>
+    </div>
+  )
+}
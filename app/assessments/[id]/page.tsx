@@ -0,0 +1,191 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getAssessment } from '@/lib/assessmentStore'
+import { DEFAULT_DECISION_POLICY, evaluatePlanChecks } from '@/lib/decisionEngine'
+import { getHumanDecisionColor, getVerdictBorder, getVerdictColor } from '@/lib/sentinelStyles'
+import { Button } from '@/components/ui/button'
+import { AssessmentPanel } from '@/components/AssessmentPanel'
+import { WorkerPlanView } from '@/components/WorkerPlanView'
+import { SentinelVerdictView } from '@/components/SentinelVerdictView'
+import { ContentFindings } from '@/components/ContentFindings'
+import { ReportExportButtons } from '@/components/ReportExportButtons'
+import { AssessmentLinkButton } from '@/components/AssessmentLinkButton'
+import { ArrowLeft, Eye, GitCompare, History, Shield, Zap } from 'lucide-react'
+
+// Rendered per request from the stored record
+export const dynamic = 'force-dynamic'
+
+const linkClassName = 'text-blue-400 hover:text-blue-300'
+
+export default async function AssessmentPage({ params }: { params: { id: string } }) {
+  const record = await getAssessment(params.id)
+  if (!record) notFound()
+
+  const { verdict, plan, sentinel } = record
+  const findings = record.findings || []
+  const planChecks = evaluatePlanChecks(DEFAULT_DECISION_POLICY, { task: record.task, plan })
+  const previousId = record.revision?.previous_assessment_id || record.clarification?.previous_assessment_id
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0f1a] via-[#0d1420] to-[#0a0f1a] text-white p-6 md:p-8 lg:p-12">
+      <div className="max-w-[1600px] mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Shield className="w-10 h-10 text-blue-400" />
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
+                ASSESSMENT {record.id.substring(0, 8).toUpperCase()}
+              </h1>
+              <p className="text-sm text-gray-500 mt-1 font-mono">
+                Completed {new Date(record.completed_at).toLocaleString()} · policy {verdict.policyVersion || 'n/a'}
+                {record.source === 'client' && ' · client-reported scores'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button asChild variant="outline" className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50">
+              <Link href={`/history?id=${record.id}`}>
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Link>
+            </Button>
+            <Button asChild variant="outline" className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50">
+              <Link href="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Sentinel
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <AssessmentLinkButton assessmentId={record.id} />
+          <ReportExportButtons assessmentId={record.id} />
+          {previousId && (
+            <Link
+              href={`/compare?a=${previousId}&b=${record.id}`}
+              className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50 text-xs font-mono text-gray-300 transition-all"
+            >
+              <GitCompare className="w-3.5 h-3.5" />
+              Compare with previous
+            </Link>
+          )}
+        </div>
+
+        {/* Three-Panel Layout, read-only */}
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6 lg:gap-8">
+          <AssessmentPanel
+            icon={<Zap className="w-5 h-5 text-blue-400" />}
+            title="Task Input"
+            index={1}
+            dotClassName="bg-blue-400"
+            className="border-gray-700/50"
+          >
+            <div className="min-h-[240px] p-4 bg-gray-800/50 border border-gray-600/50 rounded-xl text-white whitespace-pre-wrap break-words">
+              {record.task}
+            </div>
+
+            <ContentFindings findings={findings.filter((finding) => finding.source === 'task')} />
+
+            {record.clarification && (
+              <div className="text-xs text-gray-400 space-y-1 bg-gray-800/30 border border-gray-700/50 rounded-lg p-3">
+                <p>
+                  Clarifies an earlier{' '}
+                  <span className={getVerdictColor(record.clarification.previous_verdict.type)}>
+                    {record.clarification.previous_verdict.type.replace(/_/g, ' ')}
+                  </span>{' '}
+                  verdict
+                  {record.clarification.previous_assessment_id && (
+                    <>
+                      {' '}
+                      <Link href={`/assessments/${record.clarification.previous_assessment_id}`} className={`font-mono ${linkClassName}`}>
+                        {record.clarification.previous_assessment_id.substring(0, 8)}
+                      </Link>
+                    </>
+                  )}
+                </p>
+                {record.clarification.answers.map((entry, idx) => (
+                  <p key={idx} className="text-[11px] text-gray-500">
+                    {entry.question} <span className="text-gray-300">{entry.answer}</span>
+                  </p>
+                ))}
+              </div>
+            )}
+          </AssessmentPanel>
+
+          <AssessmentPanel
+            icon={<Eye className="w-5 h-5 text-amber-400" />}
+            title="Worker Plan"
+            index={2}
+            dotClassName="bg-amber-400"
+            className="border-gray-700/50"
+          >
+            <WorkerPlanView
+              plan={plan}
+              sentinel={sentinel}
+              findings={findings.filter((finding) => finding.source === 'plan')}
+              planChecks={planChecks}
+            />
+            {record.revision && (
+              <p className="text-xs text-gray-500 font-mono">
+                Plan revision v{record.revision.iteration}
+                {record.revision.previous_assessment_id && (
+                  <>
+                    {' '}of{' '}
+                    <Link href={`/assessments/${record.revision.previous_assessment_id}`} className={linkClassName}>
+                      {record.revision.previous_assessment_id.substring(0, 8)}
+                    </Link>
+                  </>
+                )}
+              </p>
+            )}
+          </AssessmentPanel>
+
+          <AssessmentPanel
+            icon={<Shield className="w-5 h-5 text-emerald-400" />}
+            title="Sentinel Verdict"
+            index={3}
+            dotClassName="bg-emerald-400"
+            className={getVerdictBorder(verdict.type)}
+          >
+            <SentinelVerdictView verdict={verdict} sentinel={sentinel} defaultShowExplanations>
+              {verdict.humanDecision && (
+                <div className="mt-4 text-xs text-gray-400 space-y-1">
+                  <p>
+                    Human decision:{' '}
+                    <span className={`px-2 py-0.5 rounded border font-mono ${getHumanDecisionColor(verdict.humanDecision.status)}`}>
+                      {verdict.humanDecision.status}
+                    </span>
+                    {verdict.humanDecision.override_verdict && (
+                      <span className={`ml-2 ${getVerdictColor(verdict.humanDecision.override_verdict)}`}>
+                        → {verdict.humanDecision.override_verdict.replace(/_/g, ' ')}
+                      </span>
+                    )}
+                  </p>
+                  {verdict.humanDecision.reviewer && (
+                    <p className="text-[11px] text-gray-500">
+                      {verdict.humanDecision.reviewer}
+                      {verdict.humanDecision.decided_at && ` · ${new Date(verdict.humanDecision.decided_at).toLocaleString()}`}
+                    </p>
+                  )}
+                  {verdict.humanDecision.justification && <p className="text-gray-300">{verdict.humanDecision.justification}</p>}
+                  {verdict.humanDecision.status === 'PENDING' && (
+                    <Link href="/approvals" className={`font-mono ${linkClassName}`}>
+                      Review in Approvals
+                    </Link>
+                  )}
+                </div>
+              )}
+            </SentinelVerdictView>
+            {record.chain && (
+              <p className="text-[11px] text-gray-500 font-mono">
+                Chain: #{record.chain.sequence} {record.chain.hash.substring(0, 16)}
+              </p>
+            )}
+          </AssessmentPanel>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import {
+  batchResultsToCsv,
+  batchResultsToJsonl,
+  parseBatchFile,
+  streamBatch,
+  summarizeBatch,
+  type BatchParseResult,
+  type BatchRowResult,
+} from '@/lib/batch'
+import { VERDICT_TYPES } from '@/lib/decisionEngine'
+import { getRiskColor, getVerdictBg, getVerdictColor } from '@/lib/sentinelStyles'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertCircle, ArrowLeft, CheckCircle, Download, FileSpreadsheet, Layers, Loader2, Play, Upload } from 'lucide-react'
+
+function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function BatchPage() {
+  const [file, setFile] = useState<File | null>(null)
+  const [parsed, setParsed] = useState<BatchParseResult | null>(null)
+  const [results, setResults] = useState<BatchRowResult[]>([])
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const summary = summarizeBatch(results)
+  const rows = [...results].sort((a, b) => a.row - b.row)
+  const total = parsed?.tasks.length || 0
+
+  const handleFile = async (selected: File | undefined) => {
+    setResults([])
+    setError(null)
+    setFile(selected || null)
+    setParsed(selected ? parseBatchFile(await selected.text(), selected.name) : null)
+  }
+
+  const handleRun = async () => {
+    if (!file || !parsed?.success) return
+
+    setRunning(true)
+    setResults([])
+    setError(null)
+
+    const outcome = await streamBatch(file, {
+      onResult: (result) => setResults((prev) => [...prev, result]),
+    })
+    if (!outcome.success) {
+      setError([outcome.error, ...(outcome.errors || [])].filter(Boolean).join(' · ') || 'Batch failed')
+    }
+
+    setRunning(false)
+  }
+
+  const exportName = (extension: string) => `${(file?.name || 'batch').replace(/\.[^.]+$/, '')}-results.${extension}`
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0f1a] via-[#0d1420] to-[#0a0f1a] text-white p-6 md:p-8 lg:p-12">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Layers className="w-10 h-10 text-blue-400" />
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold bg-gradient-to-r from-blue-400 via-cyan-400 to-blue-500 bg-clip-text text-transparent">
+                BATCH ASSESSMENT
+              </h1>
+              <p className="text-sm text-gray-500 mt-1 font-mono">
+                Run Worker → Sentinel → Decision Engine over a CSV or JSONL file of tasks
+              </p>
+            </div>
+          </div>
+          <Button asChild variant="outline" className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Sentinel
+            </Link>
+          </Button>
+        </div>
+
+        {/* Upload */}
+        <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+          <CardHeader className="border-b border-gray-700/50 pb-4">
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-blue-400" />
+              Tasks
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-5 space-y-4">
+            <p className="text-xs text-gray-500 font-mono">
+              CSV with a <span className="text-gray-300">task</span> column (or a single column of tasks), or JSONL with one{' '}
+              <span className="text-gray-300">{'{"task": "..."}'}</span> per line
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50 text-sm cursor-pointer transition-all">
+                <Upload className="w-4 h-4" />
+                {file ? file.name : 'Choose file'}
+                <input
+                  type="file"
+                  accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+                  className="hidden"
+                  disabled={running}
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                />
+              </label>
+              <Button
+                onClick={handleRun}
+                disabled={!parsed?.success || running}
+                className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500"
+              >
+                {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                {running ? `Assessing ${results.length}/${total}` : 'Run Batch'}
+              </Button>
+            </div>
+
+            {parsed?.success && (
+              <div className="flex items-center gap-2 text-xs text-green-400 font-mono">
+                <CheckCircle className="w-4 h-4" />
+                {total} task{total === 1 ? '' : 's'} · {parsed.format?.toUpperCase()}
+              </div>
+            )}
+
+            {(error || (parsed && !parsed.success)) && (
+              <div className="bg-gradient-to-r from-red-500/10 to-red-600/5 border border-red-500/50 rounded-xl p-4 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-semibold text-red-300">
+                  <AlertCircle className="w-4 h-4" />
+                  {error || `Could not read ${file?.name}`}
+                </div>
+                {!error && (
+                  <ul className="space-y-1">
+                    {parsed.errors.map((message, idx) => (
+                      <li key={idx} className="text-xs font-mono text-gray-300 flex items-start gap-2">
+                        <span className="text-red-400">▸</span>
+                        {message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        {results.length > 0 && (
+          <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+            <CardHeader className="border-b border-gray-700/50 pb-4">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <CardTitle className="text-lg font-semibold">
+                  Results
+                  <span className="ml-3 text-xs font-mono text-gray-500">
+                    {summary.succeeded} assessed · {summary.failed} failed
+                  </span>
+                </CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  {VERDICT_TYPES.filter((type) => summary.verdicts[type]).map((type) => (
+                    <span key={type} className={`px-2 py-0.5 rounded text-xs font-mono font-semibold ${getVerdictBg(type)} ${getVerdictColor(type)}`}>
+                      {type.replace(/_/g, ' ')} {summary.verdicts[type]}
+                    </span>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={running}
+                    onClick={() => downloadFile(batchResultsToCsv(results), exportName('csv'), 'text/csv')}
+                    className="border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50"
+                  >
+                    <Download className="w-3.5 h-3.5 mr-1.5" />
+                    CSV
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={running}
+                    onClick={() => downloadFile(batchResultsToJsonl(results), exportName('jsonl'), 'application/x-ndjson')}
+                    className="border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50"
+                  >
+                    <Download className="w-3.5 h-3.5 mr-1.5" />
+                    JSONL
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="pt-2">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-700/50 hover:bg-transparent">
+                    <TableHead className="w-12 text-gray-400">#</TableHead>
+                    <TableHead className="text-gray-400">Task</TableHead>
+                    <TableHead className="text-gray-400">Verdict</TableHead>
+                    <TableHead className="text-right text-gray-400">Score</TableHead>
+                    <TableHead className="text-gray-400">Triggered rules</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.row} className="border-gray-700/50 hover:bg-gray-800/30 align-top">
+                      <TableCell className="font-mono text-gray-500">{row.row}</TableCell>
+                      <TableCell className="text-gray-300 max-w-md">
+                        <p className="line-clamp-3">{row.task}</p>
+                      </TableCell>
+                      <TableCell>
+                        {row.verdict ? (
+                          <span className={`px-2 py-0.5 rounded text-xs font-mono font-semibold whitespace-nowrap ${getVerdictBg(row.verdict)} ${getVerdictColor(row.verdict)}`}>
+                            {row.verdict.replace(/_/g, ' ')}
+                          </span>
+                        ) : (
+                          <span className="text-xs font-mono text-red-400">ERROR{row.stage ? ` · ${row.stage}` : ''}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right font-mono ${row.weighted_score !== undefined ? getRiskColor(Math.round(row.weighted_score)) : 'text-gray-600'}`}>
+                        {row.weighted_score !== undefined ? row.weighted_score.toFixed(2) : '—'}
+                      </TableCell>
+                      <TableCell>
+                        {row.status === 'error' ? (
+                          <span className="text-xs text-red-300">{row.error}</span>
+                        ) : (
+                          <ul className="space-y-0.5">
+                            {(row.triggered_rules || []).map((rule, idx) => (
+                              <li key={idx} className="text-xs text-gray-400 flex items-start gap-2">
+                                <span className={row.verdict ? getVerdictColor(row.verdict) : 'text-gray-500'}>▸</span>
+                                <span>{rule}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,327 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { fetchAssessment, fetchAssessments } from '@/lib/assessmentHistory'
+import { diffAssessments } from '@/lib/assessmentDiff'
+import { getDimensionLabel } from '@/lib/riskDimensions'
+import { getDimensionIcon, getRiskBg, getRiskColor, getVerdictBg, getVerdictColor } from '@/lib/sentinelStyles'
+import type { VerdictType } from '@/lib/decisionEngine'
+import type { AssessmentRecord } from '@/lib/assessment'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PlanDiffView } from '@/components/PlanDiffView'
+import { AlertCircle, ArrowLeft, ArrowLeftRight, ArrowRight, GitCompare, Loader2 } from 'lucide-react'
+
+/** Recent assessments offered in the pickers */
+const PICKER_LIMIT = 100
+
+const selectClassName = 'flex h-10 w-full rounded-md border px-3 text-sm bg-gray-800/50 border-gray-600/50 text-white'
+
+type Side = 'a' | 'b'
+
+function VerdictBadge({ type }: { type: VerdictType }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-mono font-semibold whitespace-nowrap ${getVerdictBg(type)} ${getVerdictColor(type)}`}>
+      {type.replace(/_/g, ' ')}
+    </span>
+  )
+}
+
+// Rising scores mean more risk, so they are shown in red
+function DeltaValue({ delta }: { delta: number }) {
+  if (!delta) return <span className="text-xs font-mono text-gray-600">0</span>
+  return (
+    <span className={`text-xs font-mono font-semibold ${delta > 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+      {delta > 0 ? '+' : ''}
+      {delta}
+    </span>
+  )
+}
+
+function pickerLabel(record: AssessmentRecord) {
+  const task = record.task.length > 60 ? `${record.task.substring(0, 60)}…` : record.task
+  return `${new Date(record.completed_at).toLocaleString()} · ${record.verdict.type.replace(/_/g, ' ')} · ${task}`
+}
+
+function AssessmentSummary({ label, record }: { label: string; record: AssessmentRecord }) {
+  return (
+    <div className="flex-1 min-w-0 bg-gray-800/30 border border-gray-700/50 rounded-xl p-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-mono text-gray-500">{label}</span>
+        <VerdictBadge type={record.verdict.type} />
+      </div>
+      <p className="text-sm text-gray-200 break-words">{record.task}</p>
+      <div className="text-[11px] font-mono text-gray-500 space-y-0.5">
+        <div>Score: {record.verdict.weightedScore.toFixed(2)}</div>
+        {record.revision && <div>Plan revision: v{record.revision.iteration}</div>}
+        <div>Completed: {new Date(record.completed_at).toLocaleString()}</div>
+        <div className="truncate">ID: {record.id}</div>
+      </div>
+    </div>
+  )
+}
+
+function RuleList({ label, rules, className }: { label: string; rules: string[]; className: string }) {
+  if (rules.length === 0) return null
+  return (
+    <div className="space-y-1">
+      <span className="text-[11px] font-mono text-gray-500">{label}</span>
+      <div className="flex flex-wrap gap-1.5">
+        {rules.map((rule) => (
+          <span key={rule} className={`px-2 py-0.5 rounded border text-[11px] font-mono ${className}`}>
+            {rule}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function ComparePage() {
+  const [options, setOptions] = useState<AssessmentRecord[]>([])
+  const [ids, setIds] = useState<Record<Side, string>>({ a: '', b: '' })
+  const [records, setRecords] = useState<Partial<Record<Side, AssessmentRecord>>>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setIds({ a: params.get('a') || '', b: params.get('b') || '' })
+
+    fetchAssessments({ limit: PICKER_LIMIT }).then((data) => {
+      if (data.success) setOptions(data.assessments || [])
+    })
+  }, [])
+
+  useEffect(() => {
+    const params = new URLSearchParams()
+    if (ids.a) params.set('a', ids.a)
+    if (ids.b) params.set('b', ids.b)
+    const query = params.toString()
+    window.history.replaceState(null, '', query ? `/compare?${query}` : '/compare')
+
+    if (!ids.a || !ids.b) {
+      setRecords({})
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    Promise.all([fetchAssessment(ids.a), fetchAssessment(ids.b)]).then(([a, b]) => {
+      if (cancelled) return
+      if (a.success && a.assessment && b.success && b.assessment) {
+        setRecords({ a: a.assessment, b: b.assessment })
+      } else {
+        setRecords({})
+        setError(a.error || b.error || 'Failed to load assessments')
+      }
+      setLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [ids])
+
+  // Linked assessments may be older than the picker window
+  const pickerOptions = [...options]
+  for (const record of [records.a, records.b]) {
+    if (record && !pickerOptions.some((option) => option.id === record.id)) pickerOptions.push(record)
+  }
+
+  const diff = records.a && records.b ? diffAssessments(records.a, records.b) : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0f1a] via-[#0d1420] to-[#0a0f1a] text-white p-6 md:p-8 lg:p-12">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <GitCompare className="w-10 h-10 text-blue-400" />
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold bg-gradient-to-r from-blue-400 via-cyan-400 to-blue-500 bg-clip-text text-transparent">
+                COMPARE ASSESSMENTS
+              </h1>
+              <p className="text-sm text-gray-500 mt-1 font-mono">
+                What changed between two stored assessments: plan, scores, verdict and rules
+              </p>
+            </div>
+          </div>
+          <Button asChild variant="outline" className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Sentinel
+            </Link>
+          </Button>
+        </div>
+
+        {/* Pickers */}
+        <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row md:items-end gap-3">
+              {(['a', 'b'] as Side[]).map((side) => (
+                <label key={side} className="flex-1 space-y-1.5">
+                  <span className="text-xs font-mono text-gray-500">{side === 'a' ? 'Baseline' : 'Compared'}</span>
+                  <select
+                    value={ids[side]}
+                    onChange={(e) => setIds((prev) => ({ ...prev, [side]: e.target.value }))}
+                    className={selectClassName}
+                  >
+                    <option value="">Select an assessment</option>
+                    {pickerOptions.map((record) => (
+                      <option key={record.id} value={record.id}>
+                        {pickerLabel(record)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <Button
+                variant="outline"
+                onClick={() => setIds((prev) => ({ a: prev.b, b: prev.a }))}
+                disabled={!ids.a && !ids.b}
+                className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50"
+              >
+                <ArrowLeftRight className="w-4 h-4 mr-2" />
+                Swap
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/50 rounded-xl p-4 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+            <p className="text-sm text-red-300">{error}</p>
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center gap-3 py-12 text-gray-400">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span className="text-sm">Loading assessments...</span>
+          </div>
+        )}
+
+        {!loading && !diff && !error && (
+          <p className="text-center text-sm text-gray-500 py-12">Select two assessments to compare</p>
+        )}
+
+        {!loading && diff && records.a && records.b && (
+          <>
+            {/* Summary */}
+            <div className="flex flex-col md:flex-row items-stretch gap-4">
+              <AssessmentSummary label="Baseline" record={records.a} />
+              <div className="flex md:flex-col items-center justify-center gap-2 text-xs font-mono">
+                <ArrowRight className="w-5 h-5 text-gray-500" />
+                <span className={diff.verdict.changed ? 'text-amber-400' : 'text-gray-500'}>
+                  {diff.verdict.changed ? 'Verdict changed' : 'Same verdict'}
+                </span>
+                <DeltaValue delta={diff.weighted_score.delta} />
+              </div>
+              <AssessmentSummary label="Compared" record={records.b} />
+            </div>
+
+            {!diff.sameTask && (
+              <div className="bg-amber-500/10 border border-amber-500/50 rounded-xl p-3 flex items-center gap-3">
+                <AlertCircle className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                <p className="text-xs text-amber-300">These assessments are for different tasks</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Scores */}
+              <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+                <CardHeader className="border-b border-gray-700/50 pb-4">
+                  <CardTitle className="text-lg font-semibold">Risk Scores</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-gray-700/50">
+                        <TableHead className="text-gray-400">Dimension</TableHead>
+                        <TableHead className="text-gray-400 text-center">Baseline</TableHead>
+                        <TableHead className="text-gray-400 text-center">Compared</TableHead>
+                        <TableHead className="text-gray-400 text-center">Δ</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.scores.map((score) => (
+                        <TableRow key={score.dimension} className="border-gray-700/50">
+                          <TableCell className="text-sm text-gray-300">
+                            <span className="opacity-50 mr-2">{getDimensionIcon(score.dimension)}</span>
+                            {getDimensionLabel(score.dimension)}
+                          </TableCell>
+                          {[score.before, score.after].map((value, idx) => (
+                            <TableCell key={idx} className="text-center">
+                              <span className={`inline-block w-7 py-0.5 rounded font-mono font-bold ${getRiskBg(value)} ${getRiskColor(value)}`}>
+                                {value}
+                              </span>
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-center">
+                            <DeltaValue delta={score.delta} />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="border-gray-700/50">
+                        <TableCell className="text-sm text-gray-400">Weighted score</TableCell>
+                        <TableCell className="text-center font-mono text-gray-300">{diff.weighted_score.before.toFixed(2)}</TableCell>
+                        <TableCell className="text-center font-mono text-gray-300">{diff.weighted_score.after.toFixed(2)}</TableCell>
+                        <TableCell className="text-center">
+                          <DeltaValue delta={diff.weighted_score.delta} />
+                        </TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {/* Verdict */}
+              <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+                <CardHeader className="border-b border-gray-700/50 pb-4">
+                  <CardTitle className="text-lg font-semibold">Verdict & Rules</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-4 space-y-4">
+                  <div className="flex items-center gap-3">
+                    <VerdictBadge type={diff.verdict.before} />
+                    <ArrowRight className="w-4 h-4 text-gray-500" />
+                    <VerdictBadge type={diff.verdict.after} />
+                  </div>
+                  <div className="text-[11px] font-mono text-gray-500">
+                    Policy: {diff.policy_version.before || 'n/a'}
+                    {diff.policy_version.changed && <span className="text-amber-400"> → {diff.policy_version.after || 'n/a'}</span>}
+                  </div>
+                  {diff.triggered_rules.added.length === 0 && diff.triggered_rules.removed.length === 0 && (
+                    <p className="text-[11px] text-gray-500">Same triggered rules</p>
+                  )}
+                  <RuleList label="Now triggered" rules={diff.triggered_rules.added} className="border-red-500/40 text-red-300" />
+                  <RuleList
+                    label="No longer triggered"
+                    rules={diff.triggered_rules.removed}
+                    className="border-emerald-500/40 text-emerald-300 line-through decoration-emerald-400/60"
+                  />
+                  <RuleList label="Triggered in both" rules={diff.triggered_rules.unchanged} className="border-gray-700/50 text-gray-400" />
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Plan */}
+            <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+              <CardHeader className="border-b border-gray-700/50 pb-4">
+                <CardTitle className="text-lg font-semibold">Plan Changes</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-4">
+                <PlanDiffView diff={diff.plan} showUnchanged />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
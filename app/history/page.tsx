@@ -0,0 +1,372 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { fetchAssessments, type HistoryFilters } from '@/lib/assessmentHistory'
+import { VERDICT_TYPES, type VerdictType } from '@/lib/decisionEngine'
+import { ACTION_TAGS, type AssessmentRecord } from '@/lib/assessment'
+import { getDimensionLabel } from '@/lib/riskDimensions'
+import {
+  getActionTagColor,
+  getDimensionIcon,
+  getHumanDecisionColor,
+  getRequiredAction,
+  getRiskBg,
+  getRiskColor,
+  getVerdictBg,
+  getVerdictBorder,
+  getVerdictColor,
+} from '@/lib/sentinelStyles'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { ContentFindings } from '@/components/ContentFindings'
+import { ReportExportButtons } from '@/components/ReportExportButtons'
+import { AssessmentLinkButton } from '@/components/AssessmentLinkButton'
+import { RiskHeatmap } from '@/components/RiskHeatmap'
+import { ArrowLeft, ChevronDown, Filter, GitCompare, Grid3x3, History, Loader2, Search } from 'lucide-react'
+
+const inputClassName = 'bg-gray-800/50 border-gray-600/50 text-white placeholder-gray-500'
+
+/** Newest assessments shown as heatmap columns */
+const HEATMAP_COLUMNS = 60
+
+function AssessmentDetail({ record }: { record: AssessmentRecord }) {
+  const { plan, sentinel, verdict } = record
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 pt-4 border-t border-gray-700/50">
+      {/* Plan */}
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Worker Plan</h4>
+        {plan.steps.map((step) => (
+          <div key={step.step_number} className="bg-gray-800/40 border border-gray-700/50 rounded-lg p-3 space-y-1.5">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-mono text-blue-300">#{step.step_number}</span>
+              <span className={`px-2 py-0.5 rounded text-[10px] border font-mono font-semibold ${getActionTagColor(step.action_tag)}`}>
+                {step.action_tag}
+              </span>
+            </div>
+            <p className="text-xs text-gray-300 leading-relaxed">{step.action}</p>
+          </div>
+        ))}
+        {plan.external_systems.length > 0 && (
+          <p className="text-xs text-gray-500">
+            <span className="text-purple-400">External systems:</span> {plan.external_systems.join(', ')}
+          </p>
+        )}
+      </div>
+
+      {/* Scores & explanations */}
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Risk Scores</h4>
+        {Object.entries(sentinel.risk_scores).map(([dimension, score]) => (
+          <div key={dimension} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="opacity-50 w-4 text-center">{getDimensionIcon(dimension)}</span>
+              <span className="text-xs text-gray-400 font-mono capitalize flex-1">{getDimensionLabel(dimension)}</span>
+              <span className={`px-2 py-0.5 rounded text-xs font-bold ${getRiskBg(score)} ${getRiskColor(score)}`}>{score}</span>
+            </div>
+            <p className="text-[11px] text-gray-500 leading-relaxed pl-6">
+              {sentinel.risk_explanations[dimension]}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Verdict */}
+      <div className="space-y-3">
+        <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Decision</h4>
+        <div className={`${getVerdictBg(verdict.type)} border ${getVerdictBorder(verdict.type)} rounded-lg p-3 space-y-2`}>
+          <p className={`text-sm font-bold ${getVerdictColor(verdict.type)}`}>{verdict.type.replace(/_/g, ' ')}</p>
+          <p className="text-xs text-gray-300">{getRequiredAction(verdict.type)}</p>
+        </div>
+        <ul className="space-y-1.5">
+          {verdict.triggeredRules.map((rule, idx) => (
+            <li key={idx} className="text-xs text-gray-400 flex items-start gap-2">
+              <span className={getVerdictColor(verdict.type)}>▸</span>
+              <span>{rule}</span>
+            </li>
+          ))}
+        </ul>
+        {verdict.humanDecision && (
+          <div className="text-xs text-gray-400 space-y-1 bg-gray-800/30 border border-gray-700/50 rounded-lg p-3">
+            <p>
+              Human decision:{' '}
+              <span className={`px-2 py-0.5 rounded border font-mono ${getHumanDecisionColor(verdict.humanDecision.status)}`}>
+                {verdict.humanDecision.status}
+              </span>
+              {verdict.humanDecision.override_verdict && (
+                <span className={`ml-2 ${getVerdictColor(verdict.humanDecision.override_verdict)}`}>
+                  → {verdict.humanDecision.override_verdict.replace(/_/g, ' ')}
+                </span>
+              )}
+            </p>
+            {verdict.humanDecision.reviewer && (
+              <p className="text-[11px] text-gray-500">
+                {verdict.humanDecision.reviewer}
+                {verdict.humanDecision.decided_at && ` · ${new Date(verdict.humanDecision.decided_at).toLocaleString()}`}
+              </p>
+            )}
+            {verdict.humanDecision.justification && <p className="text-gray-300">{verdict.humanDecision.justification}</p>}
+          </div>
+        )}
+        {record.clarification && (
+          <div className="text-xs text-gray-400 space-y-1 bg-amber-500/5 border border-amber-500/20 rounded-lg p-3">
+            <p>
+              Re-assessed after clarification. Original verdict:{' '}
+              <span className={getVerdictColor(record.clarification.previous_verdict.type)}>
+                {record.clarification.previous_verdict.type.replace(/_/g, ' ')}
+              </span>
+            </p>
+            {record.clarification.answers.map((entry, idx) => (
+              <p key={idx} className="text-[11px] text-gray-500">
+                {entry.question} <span className="text-gray-300">{entry.answer}</span>
+              </p>
+            ))}
+          </div>
+        )}
+        {record.findings && <ContentFindings findings={record.findings} />}
+        <dl className="text-[11px] font-mono text-gray-500 space-y-1">
+          {record.revision && <div>Plan revision: v{record.revision.iteration}</div>}
+          <div>ID: {record.id}</div>
+          <div>Policy: {verdict.policyVersion || 'n/a'}</div>
+          {record.chain && (
+            <div>
+              Chain: #{record.chain.sequence} {record.chain.hash.substring(0, 16)}
+            </div>
+          )}
+          {record.source && <div>Source: {record.source === 'client' ? 'client-reported scores' : 'server pipeline'}</div>}
+          <div>Worker agent: {record.agents?.worker_agent_id}</div>
+          <div>Sentinel agent: {record.agents?.sentinel_agent_id}</div>
+          {record.sessions?.worker_session_id && <div>Worker session: {record.sessions.worker_session_id}</div>}
+          {record.sessions?.sentinel_session_id && <div>Sentinel session: {record.sessions.sentinel_session_id}</div>}
+          <div>Started: {record.started_at ? new Date(record.started_at).toLocaleString() : 'n/a'}</div>
+          <div>Completed: {new Date(record.completed_at).toLocaleString()}</div>
+        </dl>
+        <div className="flex flex-wrap items-center gap-2">
+          <ReportExportButtons assessmentId={record.id} />
+          <AssessmentLinkButton assessmentId={record.id} />
+          <Link
+            href={`/compare?a=${record.revision?.previous_assessment_id || ''}&b=${record.id}`}
+            className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50 text-xs font-mono text-gray-300 transition-all"
+          >
+            <GitCompare className="w-3.5 h-3.5" />
+            {record.revision?.previous_assessment_id ? 'Compare with previous revision' : 'Compare'}
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function HistoryPage() {
+  const [filters, setFilters] = useState<HistoryFilters>({})
+  const [assessments, setAssessments] = useState<AssessmentRecord[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const loadAssessments = async (activeFilters: HistoryFilters) => {
+    setLoading(true)
+    setError(null)
+
+    const result = await fetchAssessments(activeFilters)
+
+    if (result.success) {
+      setAssessments(result.assessments || [])
+    } else {
+      setError(result.error || 'Failed to load history')
+    }
+
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('id')
+    if (id) setExpandedId(id)
+    loadAssessments({})
+  }, [])
+
+  const toggleVerdict = (type: VerdictType) => {
+    const current = filters.verdict || []
+    const verdict = current.includes(type) ? current.filter((t) => t !== type) : [...current, type]
+    setFilters({ ...filters, verdict })
+  }
+
+  const clearFilters = () => {
+    setFilters({})
+    loadAssessments({})
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0f1a] via-[#0d1420] to-[#0a0f1a] text-white p-6 md:p-8 lg:p-12">
+      <div className="max-w-[1600px] mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <History className="w-10 h-10 text-blue-400" />
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
+                ASSESSMENT HISTORY
+              </h1>
+              <p className="text-sm text-gray-500 mt-1 font-mono">Audit log of every Sentinel verdict</p>
+            </div>
+          </div>
+          <Button asChild variant="outline" className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Sentinel
+            </Link>
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <Card className="bg-gray-900/40 border border-gray-700/50 backdrop-blur-xl">
+          <CardHeader className="border-b border-gray-700/50">
+            <div className="flex items-center gap-3">
+              <Filter className="w-5 h-5 text-blue-400" />
+              <CardTitle className="text-lg font-semibold">Filters</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {VERDICT_TYPES.map((type) => {
+                const active = filters.verdict?.includes(type)
+                return (
+                  <button
+                    key={type}
+                    onClick={() => toggleVerdict(type)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-mono font-semibold border transition-all ${
+                      active
+                        ? `${getVerdictBg(type)} ${getVerdictBorder(type)} ${getVerdictColor(type)}`
+                        : 'border-gray-700/50 text-gray-500 hover:text-gray-300'
+                    }`}
+                  >
+                    {type.replace(/_/g, ' ')}
+                  </button>
+                )
+              })}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <label className="space-y-1 text-xs text-gray-500 font-mono">
+                <span>From</span>
+                <Input
+                  type="date"
+                  value={filters.from || ''}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="space-y-1 text-xs text-gray-500 font-mono">
+                <span>To</span>
+                <Input
+                  type="date"
+                  value={filters.to || ''}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="space-y-1 text-xs text-gray-500 font-mono">
+                <span>Action tag</span>
+                <select
+                  value={filters.action_tag || ''}
+                  onChange={(e) => setFilters({ ...filters, action_tag: e.target.value || undefined })}
+                  className={`flex h-10 w-full rounded-md border px-3 text-sm ${inputClassName}`}
+                >
+                  <option value="">Any</option>
+                  {ACTION_TAGS.map((tag) => (
+                    <option key={tag} value={tag}>
+                      {tag}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1 text-xs text-gray-500 font-mono">
+                <span>Task contains</span>
+                <Input
+                  value={filters.q || ''}
+                  onChange={(e) => setFilters({ ...filters, q: e.target.value || undefined })}
+                  placeholder="Search tasks..."
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+
+            <div className="flex gap-3">
+              <Button onClick={() => loadAssessments(filters)} disabled={loading} className="bg-gradient-to-r from-blue-600 to-blue-700">
+                {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+                Apply
+              </Button>
+              <Button onClick={clearFilters} variant="outline" className="border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50">
+                Clear
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="bg-gradient-to-r from-red-500/10 to-red-600/5 border border-red-500/50 rounded-xl p-4 text-red-300">{error}</div>
+        )}
+
+        {/* Heatmap */}
+        {assessments.length > 0 && (
+          <Card className="bg-gray-900/40 border border-gray-700/50 backdrop-blur-xl">
+            <CardHeader className="border-b border-gray-700/50">
+              <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                <Grid3x3 className="w-5 h-5 text-blue-400" />
+                Risk Heatmap
+                <span className="text-xs font-mono font-normal text-gray-500">
+                  {Math.min(assessments.length, HEATMAP_COLUMNS)} most recent, oldest first
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-6">
+              <RiskHeatmap records={assessments.slice(0, HEATMAP_COLUMNS).reverse()} onSelect={setExpandedId} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Results */}
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500 font-mono">{assessments.length} assessment(s)</p>
+
+          {!loading && assessments.length === 0 && (
+            <div className="text-center py-20 text-gray-500">
+              <History className="w-12 h-12 mx-auto mb-4 opacity-30" />
+              <p className="text-sm font-mono">No assessments match these filters</p>
+            </div>
+          )}
+
+          {assessments.map((record) => {
+            const expanded = expandedId === record.id
+            return (
+              <Card key={record.id} className={`bg-gray-900/40 border backdrop-blur-xl ${expanded ? getVerdictBorder(record.verdict.type) : 'border-gray-700/50'}`}>
+                <CardContent className="p-4 space-y-3">
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : record.id)}
+                    className="w-full flex items-center gap-4 text-left"
+                  >
+                    <span className={`px-3 py-1 rounded-lg text-xs font-mono font-bold border whitespace-nowrap ${getVerdictBg(record.verdict.type)} ${getVerdictBorder(record.verdict.type)} ${getVerdictColor(record.verdict.type)}`}>
+                      {record.verdict.type.replace(/_/g, ' ')}
+                    </span>
+                    <span className="flex-1 text-sm text-gray-300 truncate">{record.task}</span>
+                    <span className="text-xs text-gray-500 font-mono whitespace-nowrap">
+                      {record.verdict.weightedScore.toFixed(2)}
+                    </span>
+                    <span className="text-xs text-gray-500 font-mono whitespace-nowrap hidden md:inline">
+                      {new Date(record.created_at).toLocaleString()}
+                    </span>
+                    <ChevronDown className={`w-4 h-4 text-gray-500 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+                  </button>
+                  {expanded && <AssessmentDetail record={record} />}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,73 +1,76 @@
 'use client'
 
-import { useState } from 'react'
-import { callAIAgent } from '@/lib/aiAgent'
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { callAIAgent, streamAIAgent, type AIAgentResponse } from '@/lib/aiAgent'
+import { recordAssessment } from '@/lib/assessmentHistory'
+import { appendClarifications, generateClarifyingQuestions } from '@/lib/clarification'
+import { rollUpStepScores } from '@/lib/stepScoring'
+import {
+  DEFAULT_DECISION_POLICY,
+  evaluatePlanChecks,
+  type RiskScores,
+  type Verdict,
+} from '@/lib/decisionEngine'
+import {
+  calculateEnsembleVerdict,
+  combineSentinelResults,
+  DEFAULT_ENSEMBLE_CONFIG,
+  getEnsembleAgentIds,
+  type SentinelEvaluation,
+} from '@/lib/ensemble'
+import { validateSentinelOutput, validateWorkerOutput } from '@/lib/agentOutput'
+import { resolveAgentId, type AgentRole } from '@/lib/agentRegistry'
+import type { SchemaIssue } from '@/lib/responseSchema'
+import {
+  CONTENT_SCANNER_CONFIG,
+  getScanFloors,
+  hasRedactableFindings,
+  redactText,
+  scanPlan,
+  scanText,
+  type ScanFinding,
+} from '@/lib/contentScanner'
+import {
+  buildRevisionMessage,
+  buildSentinelMessage,
+  MAX_PLAN_REVISIONS,
+  type AssessmentClarification,
+  type ClarificationAnswer,
+  type PlanIteration,
+  type PlanStep,
+  type SentinelResult,
+  type WorkerPlan,
+} from '@/lib/assessment'
+import { getVerdictBorder, getVerdictColor, getVerdictGlow } from '@/lib/sentinelStyles'
 import { Button } from '@/components/ui/button'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { PlanRevisionHistory } from '@/components/PlanRevisionHistory'
+import { ClarificationForm } from '@/components/ClarificationForm'
+import { AgentOutputIssues } from '@/components/AgentOutputIssues'
+import { StreamingPlanPreview, StreamingScoresPreview } from '@/components/StreamingPreview'
+import { ContentFindings } from '@/components/ContentFindings'
+import { ReportExportButtons } from '@/components/ReportExportButtons'
+import { AssessmentLinkButton } from '@/components/AssessmentLinkButton'
+import { AssessmentPanel } from '@/components/AssessmentPanel'
+import { WorkerPlanView } from '@/components/WorkerPlanView'
+import { SentinelVerdictView } from '@/components/SentinelVerdictView'
 import {
   Loader2,
   AlertCircle,
-  CheckCircle,
-  AlertTriangle,
   XCircle,
   RefreshCw,
   Shield,
   Zap,
   Eye,
-  ChevronDown,
-  Activity
+  Activity,
+  History,
+  Wand2,
+  Gavel,
+  Scale,
+  Layers,
+  TestTubes
 } from 'lucide-react'
 
-// TypeScript interfaces based on actual test responses
-interface PlanStep {
-  step_number: number
-  action: string
-  action_tag: string
-  concerns: string[]
-}
-
-interface WorkerPlan {
-  steps: PlanStep[]
-  resources_needed: string[]
-  external_systems: string[]
-}
-
-interface RiskScores {
-  irreversibility: number
-  external_impact: number
-  financial: number
-  safety: number
-  missing_context: number
-  policy_violation: number
-}
-
-interface RiskExplanations {
-  irreversibility: string
-  external_impact: string
-  financial: string
-  safety: string
-  missing_context: string
-  policy_violation: string
-}
-
-interface SentinelResult {
-  risk_scores: RiskScores
-  risk_explanations: RiskExplanations
-}
-
-type VerdictType = 'APPROVE' | 'APPROVE_WITH_NOTICE' | 'ASK_FOR_CLARIFICATION' | 'MODIFY' | 'BLOCK'
-
-interface Verdict {
-  type: VerdictType
-  confidence: number
-  weightedScore: number
-  triggeredRules: string[]
-}
-
-// Agent IDs
-const WORKER_AGENT_ID = '69858e5be5d25ce3f598caf6'
-const SENTINEL_AGENT_ID = '69858e7f07ec48e3dc90a21c'
-
 export default function Home() {
   // State management
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1)
@@ -78,78 +81,43 @@ export default function Home() {
   const [loadingWorker, setLoadingWorker] = useState(false)
   const [loadingSentinel, setLoadingSentinel] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [showExplanations, setShowExplanations] = useState(false)
-
-  // Decision Engine Logic
-  const calculateVerdict = (scores: RiskScores): Verdict => {
-    const triggeredRules: string[] = []
-
-    // Hard overrides first
-    if (scores.safety >= 3) {
-      triggeredRules.push('CRITICAL: Safety score ≥ 3')
-      return {
-        type: 'BLOCK',
-        confidence: 100,
-        weightedScore: 0,
-        triggeredRules
-      }
-    }
-
-    if (scores.irreversibility >= 3 && scores.external_impact >= 2) {
-      triggeredRules.push('CRITICAL: Irreversibility ≥ 3 AND External Impact ≥ 2')
-      return {
-        type: 'BLOCK',
-        confidence: 100,
-        weightedScore: 0,
-        triggeredRules
-      }
-    }
-
-    if (scores.policy_violation >= 3) {
-      triggeredRules.push('CRITICAL: Policy Violation ≥ 3')
-      return {
-        type: 'BLOCK',
-        confidence: 100,
-        weightedScore: 0,
-        triggeredRules
-      }
-    }
-
-    // Weighted scoring
-    const weightedScore =
-      scores.irreversibility * 0.25 +
-      scores.external_impact * 0.25 +
-      scores.financial * 0.15 +
-      scores.safety * 0.2 +
-      scores.missing_context * 0.1 +
-      scores.policy_violation * 0.05
-
-    // Calculate confidence (inverse of weighted score normalized to percentage)
-    const confidence = Math.max(0, Math.min(100, 100 - (weightedScore / 3) * 100))
-
-    // Thresholds
-    if (weightedScore < 1.0) {
-      triggeredRules.push('Weighted score < 1.0')
-      return { type: 'APPROVE', confidence, weightedScore, triggeredRules }
-    }
-
-    if (weightedScore < 1.5) {
-      triggeredRules.push('Weighted score < 1.5')
-      return { type: 'APPROVE_WITH_NOTICE', confidence, weightedScore, triggeredRules }
-    }
-
-    if (scores.missing_context >= 2) {
-      triggeredRules.push('Missing Context ≥ 2')
-      return { type: 'ASK_FOR_CLARIFICATION', confidence, weightedScore, triggeredRules }
-    }
+  const [startedAt, setStartedAt] = useState<string | null>(null)
+  const [workerSessionId, setWorkerSessionId] = useState<string | undefined>(undefined)
+  const [assessmentId, setAssessmentId] = useState<string | null>(null)
+  const [planIterations, setPlanIterations] = useState<PlanIteration[]>([])
+  const [verdictHistory, setVerdictHistory] = useState<{ task: string; verdict: Verdict; assessment_id?: string }[]>([])
+  const [outputIssues, setOutputIssues] = useState<{ agent: AgentRole; issues: SchemaIssue[] } | null>(null)
+  const [streamingSteps, setStreamingSteps] = useState<PlanStep[]>([])
+  const [streamingScores, setStreamingScores] = useState<Partial<RiskScores> | null>(null)
+  // Findings on the task as typed, kept after redaction so they still set score floors
+  const [taskFindings, setTaskFindings] = useState<ScanFinding[]>([])
+
+  // Local content scan: live on the draft task, and on the generated plan
+  const inputFindings = useMemo(() => scanText(taskInput), [taskInput])
+  const planFindings = useMemo(() => (workerPlan ? scanPlan(workerPlan) : []), [workerPlan])
+
+  // Policy rules decidable from the plan alone, shown before the Sentinel runs
+  const planChecks = workerPlan ? evaluatePlanChecks(DEFAULT_DECISION_POLICY, { task: taskInput, plan: workerPlan }) : []
+
+  // Streamed Worker output: only steps complete enough to render
+  const callWorker = (message: string) => {
+    setStreamingSteps([])
+    return streamAIAgent(message, resolveAgentId('worker'), {
+      onPartial: (result) =>
+        setStreamingSteps(
+          (result.plan?.steps || []).filter((step: PlanStep) => typeof step?.action === 'string' && step.action_tag)
+        ),
+    })
+  }
 
-    if (weightedScore < 2.0) {
-      triggeredRules.push('Weighted score < 2.0')
-      return { type: 'MODIFY', confidence, weightedScore, triggeredRules }
+  // Validate a Worker result, surfacing malformed output instead of a plan
+  const checkWorkerPlan = (result: AIAgentResponse): WorkerPlan | null => {
+    const checked = validateWorkerOutput(result.response.result)
+    if (!checked.valid) {
+      setOutputIssues({ agent: 'worker', issues: checked.issues })
+      return null
     }
-
-    triggeredRules.push('Weighted score ≥ 2.0')
-    return { type: 'BLOCK', confidence, weightedScore, triggeredRules }
+    return checked.value
   }
 
   // Analyze Task (Worker Agent)
@@ -161,13 +129,23 @@ export default function Home() {
 
     setLoadingWorker(true)
     setError(null)
+    setOutputIssues(null)
+    setStartedAt(new Date().toISOString())
+
+    // Redact before the task leaves the browser; the textarea shows what was sent
+    const task = CONTENT_SCANNER_CONFIG.redact_before_send ? redactText(taskInput, inputFindings) : taskInput
+    setTaskFindings(inputFindings)
+    setTaskInput(task)
 
     try {
-      const result = await callAIAgent(taskInput, WORKER_AGENT_ID)
+      const result = await callWorker(task)
 
       if (result.success && result.response.status === 'success') {
-        const plan = result.response.result.plan as WorkerPlan
+        const plan = checkWorkerPlan(result)
+        if (!plan) return
+
         setWorkerPlan(plan)
+        setWorkerSessionId(result.session_id)
         setCurrentStep(2)
       } else {
         setError(result.response.message || 'Failed to generate plan')
@@ -179,27 +157,114 @@ export default function Home() {
     }
   }
 
+  // Run the Sentinel on a plan, apply the Decision Engine and record the result
+  const assessPlan = async ({
+    task,
+    plan,
+    planSessionId,
+    iteration,
+    previousAssessmentId,
+    clarification,
+    scannedTaskFindings = taskFindings,
+  }: {
+    task: string
+    plan: WorkerPlan
+    planSessionId: string | undefined
+    iteration: number
+    previousAssessmentId?: string
+    clarification?: AssessmentClarification
+    /** Task findings not yet in state, e.g. from clarification answers */
+    scannedTaskFindings?: ScanFinding[]
+  }): Promise<PlanIteration | null> => {
+    const planMessage = buildSentinelMessage(plan)
+    const sentinelAgentIds = getEnsembleAgentIds(DEFAULT_ENSEMBLE_CONFIG, resolveAgentId('sentinel'))
+    setStreamingScores(null)
+
+    // Ensemble evaluations run in parallel; only the first one streams its scores
+    const results = await Promise.all(
+      sentinelAgentIds.map((agentId, index) =>
+        index === 0
+          ? streamAIAgent(planMessage, agentId, {
+              onPartial: (partial) => setStreamingScores(partial.risk_scores || null),
+            })
+          : callAIAgent(planMessage, agentId)
+      )
+    )
+
+    const failed = results.find((result) => !result.success || result.response.status !== 'success')
+    if (failed) {
+      setError(failed.response.message || 'Failed to evaluate plan')
+      return null
+    }
+
+    const checks = results.map((result) => validateSentinelOutput(result.response.result))
+    const issues = checks.flatMap((checked) => checked.issues)
+    if (issues.length > 0) {
+      setOutputIssues({ agent: 'sentinel', issues })
+    }
+    if (checks.some((checked) => !checked.valid)) return null
+
+    // Step scores can raise plan-level scores, never lower them
+    const evaluations: SentinelEvaluation[] = checks.map((checked, index) => ({
+      agent_id: sentinelAgentIds[index],
+      session_id: results[index].session_id,
+      result: rollUpStepScores(checked.value),
+    }))
+    const sentinelData = combineSentinelResults(evaluations, DEFAULT_ENSEMBLE_CONFIG.strategy)
+    setSentinelResult(sentinelData)
+
+    // Calculate verdict using Decision Engine, with content scan findings as score floors
+    const findings = [...scannedTaskFindings, ...scanPlan(plan)]
+    const calculatedVerdict = calculateEnsembleVerdict(sentinelData, DEFAULT_DECISION_POLICY, {
+      task,
+      plan,
+      floors: getScanFloors(findings),
+    })
+    setVerdict(calculatedVerdict)
+    setCurrentStep(3)
+
+    // Persist to the audit log so the run survives Reset
+    const saved = await recordAssessment({
+      task,
+      plan,
+      sentinel: sentinelData,
+      verdict: calculatedVerdict,
+      agents: {
+        worker_agent_id: resolveAgentId('worker'),
+        sentinel_agent_id: sentinelAgentIds[0],
+      },
+      sessions: {
+        worker_session_id: planSessionId,
+        sentinel_session_id: results[0].session_id,
+      },
+      revision: iteration > 1 ? { iteration, previous_assessment_id: previousAssessmentId } : undefined,
+      clarification,
+      findings,
+      started_at: startedAt || new Date().toISOString(),
+      completed_at: new Date().toISOString(),
+    })
+    if (saved.success && saved.assessment) {
+      setAssessmentId(saved.assessment.id)
+      setVerdict(saved.assessment.verdict)
+    } else {
+      setError(`Verdict could not be saved to history: ${saved.error || 'Unknown error'}`)
+    }
+
+    return { iteration, plan, verdict: saved.assessment?.verdict || calculatedVerdict, assessment_id: saved.assessment?.id }
+  }
+
   // Evaluate Plan (Sentinel Agent)
   const evaluatePlan = async () => {
     if (!workerPlan) return
 
     setLoadingSentinel(true)
     setError(null)
+    setOutputIssues(null)
 
     try {
-      const planMessage = JSON.stringify({ plan: workerPlan })
-      const result = await callAIAgent(planMessage, SENTINEL_AGENT_ID)
-
-      if (result.success && result.response.status === 'success') {
-        const sentinelData = result.response.result as SentinelResult
-        setSentinelResult(sentinelData)
-
-        // Calculate verdict using Decision Engine
-        const calculatedVerdict = calculateVerdict(sentinelData.risk_scores)
-        setVerdict(calculatedVerdict)
-        setCurrentStep(3)
-      } else {
-        setError(result.response.message || 'Failed to evaluate plan')
+      const evaluated = await assessPlan({ task: taskInput, plan: workerPlan, planSessionId: workerSessionId, iteration: 1 })
+      if (evaluated) {
+        setPlanIterations([evaluated])
       }
     } catch (err) {
       setError('Network error occurred')
@@ -208,167 +273,139 @@ export default function Home() {
     }
   }
 
-  // Reset functionality
-  const handleReset = () => {
-    setCurrentStep(1)
-    setTaskInput('')
-    setWorkerPlan(null)
-    setSentinelResult(null)
-    setVerdict(null)
+  // Revise Plan (Worker Agent with Sentinel feedback, then re-evaluate)
+  const revisePlan = async () => {
+    if (!workerPlan || !sentinelResult || !verdict) return
+
+    setLoadingWorker(true)
     setError(null)
-    setShowExplanations(false)
-  }
+    setOutputIssues(null)
 
-  // Verdict color mapping
-  const getVerdictColor = (type: VerdictType) => {
-    switch (type) {
-      case 'APPROVE':
-        return 'text-emerald-400'
-      case 'APPROVE_WITH_NOTICE':
-        return 'text-green-400'
-      case 'ASK_FOR_CLARIFICATION':
-        return 'text-amber-400'
-      case 'MODIFY':
-        return 'text-orange-400'
-      case 'BLOCK':
-        return 'text-red-400'
-    }
-  }
+    try {
+      const revisionMessage = buildRevisionMessage(taskInput, workerPlan, sentinelResult, verdict)
+      const result = await callWorker(revisionMessage)
 
-  const getVerdictGlow = (type: VerdictType) => {
-    switch (type) {
-      case 'APPROVE':
-        return 'shadow-emerald-500/50'
-      case 'APPROVE_WITH_NOTICE':
-        return 'shadow-green-500/50'
-      case 'ASK_FOR_CLARIFICATION':
-        return 'shadow-amber-500/50'
-      case 'MODIFY':
-        return 'shadow-orange-500/50'
-      case 'BLOCK':
-        return 'shadow-red-500/50'
-    }
-  }
+      if (!result.success || result.response.status !== 'success') {
+        setError(result.response.message || 'Failed to revise plan')
+        return
+      }
 
-  const getVerdictBg = (type: VerdictType) => {
-    switch (type) {
-      case 'APPROVE':
-        return 'bg-gradient-to-br from-emerald-500/20 to-emerald-600/10'
-      case 'APPROVE_WITH_NOTICE':
-        return 'bg-gradient-to-br from-green-500/20 to-green-600/10'
-      case 'ASK_FOR_CLARIFICATION':
-        return 'bg-gradient-to-br from-amber-500/20 to-amber-600/10'
-      case 'MODIFY':
-        return 'bg-gradient-to-br from-orange-500/20 to-orange-600/10'
-      case 'BLOCK':
-        return 'bg-gradient-to-br from-red-500/20 to-red-600/10'
-    }
-  }
+      const revisedPlan = checkWorkerPlan(result)
+      if (!revisedPlan) return
 
-  const getVerdictIcon = (type: VerdictType) => {
-    switch (type) {
-      case 'APPROVE':
-        return <CheckCircle className="w-12 h-12" />
-      case 'APPROVE_WITH_NOTICE':
-        return <CheckCircle className="w-12 h-12" />
-      case 'ASK_FOR_CLARIFICATION':
-        return <AlertTriangle className="w-12 h-12" />
-      case 'MODIFY':
-        return <AlertCircle className="w-12 h-12" />
-      case 'BLOCK':
-        return <XCircle className="w-12 h-12" />
+      setLoadingWorker(false)
+      setLoadingSentinel(true)
+
+      const previous = planIterations[planIterations.length - 1]
+      const evaluated = await assessPlan({
+        task: taskInput,
+        plan: revisedPlan,
+        planSessionId: result.session_id,
+        iteration: (previous?.iteration || 1) + 1,
+        previousAssessmentId: previous?.assessment_id,
+      })
+      // The revised plan only replaces the shown one once it has a verdict of its own
+      if (evaluated) {
+        setWorkerPlan(revisedPlan)
+        setWorkerSessionId(result.session_id)
+        setPlanIterations([...planIterations, evaluated])
+      }
+    } catch (err) {
+      setError('Network error occurred')
+    } finally {
+      setLoadingWorker(false)
+      setLoadingSentinel(false)
     }
   }
 
-  const getVerdictBorder = (type: VerdictType) => {
-    switch (type) {
-      case 'APPROVE':
-        return 'border-emerald-500/50'
-      case 'APPROVE_WITH_NOTICE':
-        return 'border-green-500/50'
-      case 'ASK_FOR_CLARIFICATION':
-        return 'border-amber-500/50'
-      case 'MODIFY':
-        return 'border-orange-500/50'
-      case 'BLOCK':
-        return 'border-red-500/50'
+  // Answer clarifying questions and re-run the pipeline from the Worker step
+  const reassessWithClarifications = async (answers: ClarificationAnswer[]) => {
+    if (!verdict) return
+
+    // Answers can carry secrets too: scan and redact them like the task
+    const redact = CONTENT_SCANNER_CONFIG.redact_before_send
+    const answerFindings = scanText(appendClarifications(taskInput, answers))
+    const clarifiedFindings = [
+      ...taskFindings,
+      ...answerFindings.filter(
+        (finding) => !taskFindings.some((known) => known.kind === finding.kind && known.excerpt === finding.excerpt)
+      ),
+    ]
+    const sentAnswers = redact
+      ? answers.map((entry) => ({ ...entry, answer: redactText(entry.answer, scanText(entry.answer)) }))
+      : answers
+    const clarifiedTask = appendClarifications(taskInput, sentAnswers)
+    const clarification: AssessmentClarification = {
+      original_task: taskInput,
+      answers: sentAnswers.filter((entry) => entry.answer.trim().length > 0),
+      previous_verdict: verdict,
+      previous_assessment_id: assessmentId || undefined,
     }
-  }
 
-  // Action tag color mapping
-  const getActionTagColor = (tag: string) => {
-    switch (tag) {
-      case 'READ':
-        return 'bg-blue-500/10 text-blue-300 border-blue-500/30 shadow-blue-500/20'
-      case 'CREATE':
-        return 'bg-green-500/10 text-green-300 border-green-500/30 shadow-green-500/20'
-      case 'SEND':
-        return 'bg-purple-500/10 text-purple-300 border-purple-500/30 shadow-purple-500/20'
-      case 'DELETE':
-        return 'bg-red-500/10 text-red-300 border-red-500/30 shadow-red-500/20'
-      case 'MODIFY':
-        return 'bg-orange-500/10 text-orange-300 border-orange-500/30 shadow-orange-500/20'
-      default:
-        return 'bg-gray-500/10 text-gray-300 border-gray-500/30 shadow-gray-500/20'
-    }
-  }
+    setLoadingWorker(true)
+    setError(null)
+    setOutputIssues(null)
 
-  // Risk score color mapping
-  const getRiskColor = (score: number) => {
-    if (score === 0) return 'text-gray-400'
-    if (score === 1) return 'text-blue-400'
-    if (score === 2) return 'text-amber-400'
-    return 'text-red-400'
-  }
+    try {
+      const result = await callWorker(clarifiedTask)
 
-  const getRiskBg = (score: number) => {
-    if (score === 0) return 'bg-gray-500/20'
-    if (score === 1) return 'bg-blue-500/20'
-    if (score === 2) return 'bg-amber-500/20'
-    return 'bg-red-500/20'
-  }
+      if (!result.success || result.response.status !== 'success') {
+        setError(result.response.message || 'Failed to generate plan')
+        return
+      }
 
-  const getRiskGradient = (score: number) => {
-    if (score === 0) return 'from-gray-500/20 to-gray-600/10'
-    if (score === 1) return 'from-blue-500/20 to-blue-600/10'
-    if (score === 2) return 'from-amber-500/20 to-amber-600/10'
-    return 'from-red-500/20 to-red-600/10'
-  }
+      const plan = checkWorkerPlan(result)
+      if (!plan) return
 
-  const getRequiredAction = (type: VerdictType) => {
-    switch (type) {
-      case 'APPROVE':
-        return 'Task may proceed as planned. No additional approval required.'
-      case 'APPROVE_WITH_NOTICE':
-        return 'Task may proceed with awareness of identified concerns. Monitor execution closely.'
-      case 'ASK_FOR_CLARIFICATION':
-        return 'Provide additional context or clarification before proceeding. Missing critical information.'
-      case 'MODIFY':
-        return 'Plan requires modifications to reduce risk. Review and revise the execution steps.'
-      case 'BLOCK':
-        return 'Task execution is BLOCKED. Risk level unacceptable. Do not proceed without senior approval.'
+      setVerdictHistory([...verdictHistory, { task: taskInput, verdict, assessment_id: assessmentId || undefined }])
+      setTaskInput(clarifiedTask)
+      setTaskFindings(clarifiedFindings)
+      setWorkerPlan(plan)
+      setWorkerSessionId(result.session_id)
+      setLoadingWorker(false)
+      setLoadingSentinel(true)
+
+      const evaluated = await assessPlan({
+        task: clarifiedTask,
+        plan,
+        planSessionId: result.session_id,
+        iteration: 1,
+        clarification,
+        scannedTaskFindings: clarifiedFindings,
+      })
+      setPlanIterations(evaluated ? [evaluated] : [])
+    } catch (err) {
+      setError('Network error occurred')
+    } finally {
+      setLoadingWorker(false)
+      setLoadingSentinel(false)
     }
   }
 
-  const getDimensionIcon = (dimension: string) => {
-    switch (dimension) {
-      case 'irreversibility':
-        return '↻'
-      case 'external_impact':
-        return '⚡'
-      case 'financial':
-        return '$'
-      case 'safety':
-        return '⚠'
-      case 'missing_context':
-        return '?'
-      case 'policy_violation':
-        return '⚖'
-      default:
-        return '•'
-    }
+  // Reset functionality
+  const handleReset = () => {
+    setCurrentStep(1)
+    setTaskInput('')
+    setTaskFindings([])
+    setWorkerPlan(null)
+    setSentinelResult(null)
+    setVerdict(null)
+    setError(null)
+    setOutputIssues(null)
+    setStartedAt(null)
+    setWorkerSessionId(undefined)
+    setAssessmentId(null)
+    setPlanIterations([])
+    setVerdictHistory([])
   }
 
+  const revisionsUsed = Math.max(0, planIterations.length - 1)
+  const canRevise = verdict?.type === 'MODIFY' && revisionsUsed < MAX_PLAN_REVISIONS
+  const clarifyingQuestions =
+    verdict?.type === 'ASK_FOR_CLARIFICATION' && sentinelResult
+      ? generateClarifyingQuestions(sentinelResult, workerPlan)
+      : []
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#0a0f1a] via-[#0d1420] to-[#0a0f1a] text-white relative overflow-hidden">
       {/* Animated background elements */}
@@ -412,6 +449,61 @@ export default function Home() {
                 </span>
               </div>
 
+              <Button
+                asChild
+                variant="outline"
+                className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50 backdrop-blur-sm transition-all duration-300"
+              >
+                <Link href="/history">
+                  <History className="w-4 h-4 mr-2" />
+                  History
+                </Link>
+              </Button>
+
+              <Button
+                asChild
+                variant="outline"
+                className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50 backdrop-blur-sm transition-all duration-300"
+              >
+                <Link href="/approvals">
+                  <Gavel className="w-4 h-4 mr-2" />
+                  Approvals
+                </Link>
+              </Button>
+
+              <Button
+                asChild
+                variant="outline"
+                className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50 backdrop-blur-sm transition-all duration-300"
+              >
+                <Link href="/policy">
+                  <Scale className="w-4 h-4 mr-2" />
+                  Policy
+                </Link>
+              </Button>
+
+              <Button
+                asChild
+                variant="outline"
+                className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50 backdrop-blur-sm transition-all duration-300"
+              >
+                <Link href="/batch">
+                  <Layers className="w-4 h-4 mr-2" />
+                  Batch
+                </Link>
+              </Button>
+
+              <Button
+                asChild
+                variant="outline"
+                className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50 backdrop-blur-sm transition-all duration-300"
+              >
+                <Link href="/regression">
+                  <TestTubes className="w-4 h-4 mr-2" />
+                  Regression
+                </Link>
+              </Button>
+
               <Button
                 onClick={handleReset}
                 variant="outline"
@@ -434,27 +526,24 @@ export default function Home() {
           </div>
         )}
 
+        {outputIssues && (
+          <div className="max-w-[1600px] mx-auto mb-6">
+            <AgentOutputIssues agent={outputIssues.agent} issues={outputIssues.issues} />
+          </div>
+        )}
+
         {/* Three-Panel Layout */}
         <div className="max-w-[1600px] mx-auto grid grid-cols-1 xl:grid-cols-3 gap-6 lg:gap-8">
           {/* Panel 1 - Task Input */}
-          <Card className={`bg-gray-900/40 border backdrop-blur-xl transition-all duration-700 ${
-            currentStep === 1
+          <AssessmentPanel
+            icon={<Zap className="w-5 h-5 text-blue-400" />}
+            title="Task Input"
+            index={1}
+            dotClassName={`${currentStep >= 1 ? 'bg-blue-400' : 'bg-gray-600'} ${currentStep === 1 ? 'animate-pulse' : ''}`}
+            className={currentStep === 1
               ? 'border-blue-500/50 shadow-2xl shadow-blue-500/20 scale-[1.02]'
-              : 'border-gray-700/50 opacity-75 hover:opacity-90'
-          }`}>
-            <CardHeader className="border-b border-gray-700/50">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <Zap className="w-5 h-5 text-blue-400" />
-                  <CardTitle className="text-lg font-semibold">Task Input</CardTitle>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className={`w-2 h-2 rounded-full ${currentStep >= 1 ? 'bg-blue-400' : 'bg-gray-600'} ${currentStep === 1 ? 'animate-pulse' : ''}`}></div>
-                  <span className="text-5xl font-mono font-bold text-gray-700">01</span>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-4 pt-6">
+              : 'border-gray-700/50 opacity-75 hover:opacity-90'}
+          >
               <div className="relative">
                 <textarea
                   value={taskInput}
@@ -468,6 +557,15 @@ export default function Home() {
                 </div>
               </div>
 
+              <ContentFindings
+                findings={currentStep === 1 ? inputFindings : taskFindings}
+                note={
+                  currentStep === 1 && CONTENT_SCANNER_CONFIG.redact_before_send && hasRedactableFindings(inputFindings)
+                    ? 'Secrets and personal data will be redacted before the task is sent.'
+                    : undefined
+                }
+              />
+
               <Button
                 onClick={analyzeTask}
                 disabled={loadingWorker || !taskInput.trim() || currentStep > 1}
@@ -485,31 +583,27 @@ export default function Home() {
                   </>
                 )}
               </Button>
-            </CardContent>
-          </Card>
+          </AssessmentPanel>
 
           {/* Panel 2 - Worker Plan */}
-          <Card className={`bg-gray-900/40 border backdrop-blur-xl transition-all duration-700 ${
-            currentStep === 2
+          <AssessmentPanel
+            icon={<Eye className="w-5 h-5 text-amber-400" />}
+            title="Worker Plan"
+            index={2}
+            dotClassName={`${currentStep >= 2 ? 'bg-amber-400' : 'bg-gray-600'} ${currentStep === 2 ? 'animate-pulse' : ''}`}
+            className={currentStep === 2
               ? 'border-amber-500/50 shadow-2xl shadow-amber-500/20 scale-[1.02]' :
             currentStep < 2
               ? 'border-gray-700/30 opacity-40'
-              : 'border-gray-700/50 opacity-75 hover:opacity-90'
-          }`}>
-            <CardHeader className="border-b border-gray-700/50">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <Eye className="w-5 h-5 text-amber-400" />
-                  <CardTitle className="text-lg font-semibold">Worker Plan</CardTitle>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className={`w-2 h-2 rounded-full ${currentStep >= 2 ? 'bg-amber-400' : 'bg-gray-600'} ${currentStep === 2 ? 'animate-pulse' : ''}`}></div>
-                  <span className="text-5xl font-mono font-bold text-gray-700">02</span>
+              : 'border-gray-700/50 opacity-75 hover:opacity-90'}
+          >
+              {loadingWorker && streamingSteps.length > 0 && (
+                <div className="max-h-[520px] overflow-y-auto custom-scrollbar">
+                  <StreamingPlanPreview steps={streamingSteps} />
                 </div>
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-4 pt-6">
-              {loadingWorker && (
+              )}
+
+              {loadingWorker && streamingSteps.length === 0 && (
                 <div className="flex flex-col items-center justify-center py-20">
                   <Loader2 className="w-12 h-12 animate-spin text-blue-400 mb-4" />
                   <p className="text-sm text-gray-500 font-mono">Generating execution plan...</p>
@@ -518,77 +612,7 @@ export default function Home() {
 
               {workerPlan && !loadingWorker && (
                 <div className="space-y-4 max-h-[520px] overflow-y-auto custom-scrollbar">
-                  {/* Steps */}
-                  <div className="space-y-3">
-                    {workerPlan.steps.map((step, idx) => (
-                      <div
-                        key={step.step_number}
-                        className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl p-4 hover:border-gray-600/50 transition-all duration-300 backdrop-blur-sm"
-                        style={{ animationDelay: `${idx * 100}ms` }}
-                      >
-                        <div className="flex items-start gap-3">
-                          <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500/30 to-blue-600/20 border border-blue-500/30 flex items-center justify-center text-sm font-bold font-mono text-blue-300 shadow-lg shadow-blue-500/20">
-                            {step.step_number}
-                          </div>
-                          <div className="flex-1 space-y-2.5">
-                            <div className="flex items-start gap-2">
-                              <span className={`px-3 py-1.5 rounded-lg text-xs border font-mono font-semibold shadow-lg ${getActionTagColor(step.action_tag)}`}>
-                                {step.action_tag}
-                              </span>
-                            </div>
-                            <p className="text-sm text-gray-300 leading-relaxed">{step.action}</p>
-                            {step.concerns.length > 0 && (
-                              <div className="mt-3 space-y-2 bg-amber-500/5 border border-amber-500/20 rounded-lg p-3">
-                                {step.concerns.map((concern, idx) => (
-                                  <div key={idx} className="flex items-start gap-2 text-xs text-amber-400">
-                                    <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
-                                    <span>{concern}</span>
-                                  </div>
-                                ))}
-                              </div>
-                            )}
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-
-                  {/* Resources & Systems */}
-                  <div className="grid grid-cols-1 gap-3">
-                    {workerPlan.resources_needed.length > 0 && (
-                      <div className="bg-gradient-to-br from-blue-500/10 to-blue-600/5 border border-blue-500/20 rounded-xl p-4">
-                        <h4 className="text-sm font-semibold text-blue-400 mb-3 flex items-center gap-2">
-                          <div className="w-1.5 h-1.5 rounded-full bg-blue-400"></div>
-                          Resources Required
-                        </h4>
-                        <ul className="space-y-2">
-                          {workerPlan.resources_needed.map((resource, idx) => (
-                            <li key={idx} className="text-xs text-gray-400 flex items-start gap-2 leading-relaxed">
-                              <span className="text-blue-400 mt-1">▸</span>
-                              <span>{resource}</span>
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-
-                    {workerPlan.external_systems.length > 0 && (
-                      <div className="bg-gradient-to-br from-purple-500/10 to-purple-600/5 border border-purple-500/20 rounded-xl p-4">
-                        <h4 className="text-sm font-semibold text-purple-400 mb-3 flex items-center gap-2">
-                          <div className="w-1.5 h-1.5 rounded-full bg-purple-400"></div>
-                          External Systems
-                        </h4>
-                        <ul className="space-y-2">
-                          {workerPlan.external_systems.map((system, idx) => (
-                            <li key={idx} className="text-xs text-gray-400 flex items-start gap-2 leading-relaxed">
-                              <span className="text-purple-400 mt-1">▸</span>
-                              <span>{system}</span>
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                  </div>
+                  <WorkerPlanView plan={workerPlan} sentinel={sentinelResult} findings={planFindings} planChecks={planChecks} />
 
                   {/* Evaluate Button */}
                   <Button
@@ -617,31 +641,25 @@ export default function Home() {
                   <p className="text-sm font-mono">No plan generated</p>
                 </div>
               )}
-            </CardContent>
-          </Card>
+          </AssessmentPanel>
 
           {/* Panel 3 - Sentinel Verdict */}
-          <Card className={`bg-gray-900/40 border backdrop-blur-xl transition-all duration-700 ${
-            currentStep === 3 && verdict
+          <AssessmentPanel
+            icon={<Shield className="w-5 h-5 text-emerald-400" />}
+            title="Sentinel Verdict"
+            index={3}
+            dotClassName={`${currentStep >= 3 ? 'bg-emerald-400' : 'bg-gray-600'} ${currentStep === 3 ? 'animate-pulse' : ''}`}
+            className={currentStep === 3 && verdict
               ? `${getVerdictBorder(verdict.type)} shadow-2xl ${getVerdictGlow(verdict.type)} scale-[1.02]`
               : currentStep < 3
                 ? 'border-gray-700/30 opacity-40'
-                : 'border-gray-700/50 opacity-75'
-          }`}>
-            <CardHeader className="border-b border-gray-700/50">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <Shield className="w-5 h-5 text-emerald-400" />
-                  <CardTitle className="text-lg font-semibold">Sentinel Verdict</CardTitle>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className={`w-2 h-2 rounded-full ${currentStep >= 3 ? 'bg-emerald-400' : 'bg-gray-600'} ${currentStep === 3 ? 'animate-pulse' : ''}`}></div>
-                  <span className="text-5xl font-mono font-bold text-gray-700">03</span>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-4 pt-6">
-              {loadingSentinel && (
+                : 'border-gray-700/50 opacity-75'}
+          >
+              {loadingSentinel && streamingScores && (
+                <StreamingScoresPreview scores={streamingScores} />
+              )}
+
+              {loadingSentinel && !streamingScores && (
                 <div className="flex flex-col items-center justify-center py-20">
                   <Loader2 className="w-12 h-12 animate-spin text-amber-400 mb-4" />
                   <p className="text-sm text-gray-500 font-mono">Evaluating risks...</p>
@@ -650,130 +668,82 @@ export default function Home() {
 
               {verdict && sentinelResult && !loadingSentinel && (
                 <div className="space-y-5 max-h-[520px] overflow-y-auto custom-scrollbar">
-                  {/* Verdict Badge */}
-                  <div className={`${getVerdictBg(verdict.type)} border-2 ${getVerdictBorder(verdict.type)} rounded-2xl p-6 text-center space-y-4 animate-in fade-in duration-1000 shadow-2xl ${getVerdictGlow(verdict.type)}`}>
-                    <div className={`flex items-center justify-center ${getVerdictColor(verdict.type)} animate-in zoom-in duration-700`}>
-                      {getVerdictIcon(verdict.type)}
-                    </div>
-                    <h3 className={`text-3xl font-bold ${getVerdictColor(verdict.type)} tracking-wide`}>
-                      {verdict.type.replace(/_/g, ' ')}
-                    </h3>
-                    <div className="flex items-center justify-center gap-4 text-sm font-mono">
-                      <div className="flex items-center gap-2 bg-gray-900/50 px-3 py-1.5 rounded-lg backdrop-blur-sm">
-                        <span className="text-gray-500">Confidence:</span>
-                        <span className={getVerdictColor(verdict.type)}>{verdict.confidence.toFixed(1)}%</span>
-                      </div>
-                      <div className="flex items-center gap-2 bg-gray-900/50 px-3 py-1.5 rounded-lg backdrop-blur-sm">
-                        <span className="text-gray-500">Score:</span>
-                        <span className={getVerdictColor(verdict.type)}>{verdict.weightedScore.toFixed(2)}</span>
+                  <SentinelVerdictView verdict={verdict} sentinel={sentinelResult}>
+                    {verdict.type === 'MODIFY' && (
+                      <div className="mt-4 space-y-2">
+                        <Button
+                          onClick={revisePlan}
+                          disabled={!canRevise || loadingWorker || loadingSentinel}
+                          className="w-full bg-gradient-to-r from-orange-600 to-orange-700 hover:from-orange-700 hover:to-orange-800 shadow-lg shadow-orange-500/30 transition-all duration-300 font-semibold"
+                        >
+                          <Wand2 className="w-4 h-4 mr-2" />
+                          Revise Plan
+                        </Button>
+                        <p className="text-xs text-gray-500 font-mono text-center">
+                          {canRevise
+                            ? `Revision ${revisionsUsed + 1} of ${MAX_PLAN_REVISIONS}`
+                            : `Revision limit of ${MAX_PLAN_REVISIONS} reached`}
+                        </p>
                       </div>
-                    </div>
-                  </div>
-
-                  {/* Risk Matrix */}
-                  <div className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl p-5 backdrop-blur-sm">
-                    <h4 className="text-sm font-semibold text-gray-400 mb-4 flex items-center gap-2">
-                      <Activity className="w-4 h-4" />
-                      Risk Matrix
-                    </h4>
-                    <div className="space-y-3">
-                      {Object.entries(sentinelResult.risk_scores).map(([dimension, score]) => (
-                        <div key={dimension} className="group">
-                          <div className="flex items-center gap-3">
-                            <span className="text-lg opacity-50 w-6 text-center">{getDimensionIcon(dimension)}</span>
-                            <span className="text-xs text-gray-400 w-32 font-mono capitalize">
-                              {dimension.replace(/_/g, ' ')}
-                            </span>
-                            <div className="flex items-center gap-3 flex-1">
-                              <div className={`px-4 py-1.5 rounded-lg font-mono text-sm font-bold min-w-[3rem] text-center bg-gradient-to-br ${getRiskGradient(score)} border ${
-                                score === 0 ? 'border-gray-500/30' :
-                                score === 1 ? 'border-blue-500/30' :
-                                score === 2 ? 'border-amber-500/30' :
-                                'border-red-500/30'
-                              } ${getRiskColor(score)} shadow-lg`}>
-                                {score}
-                              </div>
-                              <div className="flex gap-1.5 flex-1">
-                                {[0, 1, 2, 3].map((level) => (
-                                  <div
-                                    key={level}
-                                    className={`h-2 flex-1 rounded-full transition-all duration-500 ${
-                                      level <= score
-                                        ? `${getRiskBg(score)} shadow-lg ${
-                                            score === 3 ? 'shadow-red-500/50' :
-                                            score === 2 ? 'shadow-amber-500/50' :
-                                            score === 1 ? 'shadow-blue-500/50' :
-                                            'shadow-gray-500/50'
-                                          }`
-                                        : 'bg-gray-700/30'
-                                    }`}
-                                    style={{ transitionDelay: `${level * 100}ms` }}
-                                  />
-                                ))}
-                              </div>
-                            </div>
-                          </div>
+                    )}
+                    {verdict.type === 'ASK_FOR_CLARIFICATION' && (
+                      <ClarificationForm
+                        key={assessmentId || 'clarification'}
+                        questions={clarifyingQuestions}
+                        onSubmit={reassessWithClarifications}
+                        loading={loadingWorker || loadingSentinel}
+                      />
+                    )}
+                  </SentinelVerdictView>
+
+                  <PlanRevisionHistory iterations={planIterations} />
+
+                  {/* Earlier verdicts superseded by clarification */}
+                  {verdictHistory.length > 0 && (
+                    <div className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl p-5 backdrop-blur-sm space-y-2">
+                      <h4 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
+                        <History className="w-4 h-4" />
+                        Earlier Verdicts
+                      </h4>
+                      {verdictHistory.map((entry, idx) => (
+                        <div key={idx} className="flex items-center gap-3 text-xs font-mono">
+                          <span className={`font-semibold ${getVerdictColor(entry.verdict.type)}`}>
+                            {entry.verdict.type.replace(/_/g, ' ')}
+                          </span>
+                          <span className="text-gray-500">score {entry.verdict.weightedScore.toFixed(2)}</span>
+                          {entry.assessment_id && (
+                            <Link href={`/history?id=${entry.assessment_id}`} className="text-blue-400 hover:text-blue-300">
+                              {entry.assessment_id.substring(0, 8)}
+                            </Link>
+                          )}
                         </div>
                       ))}
                     </div>
-                  </div>
-
-                  {/* Triggered Rules */}
-                  <div className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl p-5 backdrop-blur-sm">
-                    <h4 className="text-sm font-semibold text-gray-400 mb-3 flex items-center gap-2">
-                      <AlertCircle className="w-4 h-4" />
-                      Triggered Rules
-                    </h4>
-                    <ul className="space-y-2">
-                      {verdict.triggeredRules.map((rule, idx) => (
-                        <li key={idx} className="text-xs text-gray-400 flex items-start gap-2 leading-relaxed">
-                          <span className={`${getVerdictColor(verdict.type)} mt-0.5`}>▸</span>
-                          <span>{rule}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-
-                  {/* Risk Explanations */}
-                  <div className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl overflow-hidden backdrop-blur-sm">
-                    <button
-                      onClick={() => setShowExplanations(!showExplanations)}
-                      className="w-full px-5 py-4 flex items-center justify-between hover:bg-gray-700/30 transition-colors duration-200"
-                    >
-                      <h4 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
-                        <Eye className="w-4 h-4" />
-                        Risk Explanations
-                      </h4>
-                      <ChevronDown className={`w-4 h-4 text-gray-500 transition-transform duration-300 ${showExplanations ? 'rotate-180' : ''}`} />
-                    </button>
-                    {showExplanations && (
-                      <div className="px-5 pb-4 space-y-3 border-t border-gray-700/50 pt-4">
-                        {Object.entries(sentinelResult.risk_explanations).map(([dimension, explanation]) => (
-                          <div key={dimension} className="space-y-1.5">
-                            <div className="flex items-center gap-2">
-                              <span className="text-xs font-mono text-gray-500 capitalize flex items-center gap-2">
-                                <span className="text-base opacity-50">{getDimensionIcon(dimension)}</span>
-                                {dimension.replace(/_/g, ' ')}
-                              </span>
-                              <div className={`px-2 py-0.5 rounded text-xs font-bold ${getRiskBg(sentinelResult.risk_scores[dimension as keyof RiskScores])} ${getRiskColor(sentinelResult.risk_scores[dimension as keyof RiskScores])}`}>
-                                {sentinelResult.risk_scores[dimension as keyof RiskScores]}
-                              </div>
-                            </div>
-                            <p className="text-xs text-gray-400 leading-relaxed pl-7">{explanation}</p>
-                          </div>
-                        ))}
+                  )}
+
+                  {verdict.humanDecision?.status === 'PENDING' && (
+                    <div className="flex items-center justify-between gap-3 text-xs bg-amber-500/5 border border-amber-500/20 rounded-lg p-3">
+                      <span className="text-amber-300">Awaiting human approval before execution</span>
+                      <Link href="/approvals" className="font-mono text-blue-400 hover:text-blue-300">
+                        Review
+                      </Link>
+                    </div>
+                  )}
+
+                  {assessmentId && (
+                    <div className="space-y-3">
+                      <p className="text-xs text-gray-500 font-mono text-center">
+                        Recorded in audit log as{' '}
+                        <Link href={`/assessments/${assessmentId}`} className="text-blue-400 hover:text-blue-300">
+                          {assessmentId.substring(0, 8)}
+                        </Link>
+                      </p>
+                      <div className="flex flex-wrap items-center justify-center gap-2">
+                        <AssessmentLinkButton assessmentId={assessmentId} />
+                        <ReportExportButtons assessmentId={assessmentId} />
                       </div>
-                    )}
-                  </div>
-
-                  {/* Required Action */}
-                  <div className={`${getVerdictBg(verdict.type)} border-2 ${getVerdictBorder(verdict.type)} rounded-xl p-5 shadow-lg ${getVerdictGlow(verdict.type)}`}>
-                    <h4 className="text-sm font-semibold text-gray-300 mb-2 flex items-center gap-2">
-                      <AlertTriangle className="w-4 h-4" />
-                      Required Action
-                    </h4>
-                    <p className="text-sm text-gray-300 leading-relaxed">{getRequiredAction(verdict.type)}</p>
-                  </div>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -783,8 +753,7 @@ export default function Home() {
                   <p className="text-sm font-mono">No verdict available</p>
                 </div>
               )}
-            </CardContent>
-          </Card>
+          </AssessmentPanel>
         </div>
       </div>
 
@@ -0,0 +1,271 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { DEFAULT_POLICY_DOCUMENT, parsePolicyDocument } from '@/lib/policyLoader'
+import { calculateVerdict, evaluatePolicyRules, type RiskScores, type VerdictContext } from '@/lib/decisionEngine'
+import { getDimensionLabel, getScoreLevels, RISK_DIMENSIONS } from '@/lib/riskDimensions'
+import { ACTION_TAGS } from '@/lib/assessment'
+import {
+  getActionTagColor,
+  getDimensionIcon,
+  getRiskBg,
+  getRiskColor,
+  getVerdictBg,
+  getVerdictBorder,
+  getVerdictColor,
+} from '@/lib/sentinelStyles'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, ArrowLeft, CheckCircle, Copy, FileCode, FlaskConical, RotateCcw, Scale } from 'lucide-react'
+
+const DEFAULT_POLICY_TEXT = JSON.stringify(DEFAULT_POLICY_DOCUMENT, null, 2)
+
+const emptyScores = (): RiskScores => Object.fromEntries(RISK_DIMENSIONS.map((dimension) => [dimension, 0]))
+
+export default function PolicyEditorPage() {
+  const [policyText, setPolicyText] = useState(DEFAULT_POLICY_TEXT)
+  const [scores, setScores] = useState<RiskScores>(emptyScores)
+  const [sampleTask, setSampleTask] = useState('')
+  const [sampleTags, setSampleTags] = useState<string[]>([])
+  const [sampleSystems, setSampleSystems] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  const loaded = useMemo(() => parsePolicyDocument(policyText), [policyText])
+
+  // Sample plan: one step per selected action tag
+  const context: VerdictContext = {
+    task: sampleTask,
+    plan: {
+      steps: sampleTags.map((tag, idx) => ({ step_number: idx + 1, action: sampleTask, action_tag: tag, concerns: [] })),
+      resources_needed: [],
+      external_systems: sampleSystems
+        .split(',')
+        .map((system) => system.trim())
+        .filter(Boolean),
+    },
+  }
+
+  const preview = loaded.success ? calculateVerdict(scores, loaded.policy, context) : null
+  const matches = loaded.success ? evaluatePolicyRules(loaded.policy.rules, scores, context) : []
+  const activeVerdict = calculateVerdict(scores, undefined, context)
+
+  const toggleTag = (tag: string) =>
+    setSampleTags((prev) => (prev.includes(tag) ? prev.filter((value) => value !== tag) : [...prev, tag]))
+
+  const copyPolicy = async () => {
+    await navigator.clipboard.writeText(policyText)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0f1a] via-[#0d1420] to-[#0a0f1a] text-white p-6 md:p-8 lg:p-12">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Scale className="w-10 h-10 text-blue-400" />
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold bg-gradient-to-r from-blue-400 via-cyan-400 to-blue-500 bg-clip-text text-transparent">
+                DECISION POLICY
+              </h1>
+              <p className="text-sm text-gray-500 mt-1 font-mono">
+                Draft changes to config/decision_policy.json and preview their verdicts
+              </p>
+            </div>
+          </div>
+          <Button asChild variant="outline" className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Sentinel
+            </Link>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Editor */}
+          <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+            <CardHeader className="border-b border-gray-700/50 pb-4">
+              <div className="flex items-center justify-between gap-3">
+                <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                  <FileCode className="w-5 h-5 text-blue-400" />
+                  Policy
+                </CardTitle>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPolicyText(DEFAULT_POLICY_TEXT)}
+                    disabled={policyText === DEFAULT_POLICY_TEXT}
+                    className="border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
+                    Reset
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={copyPolicy}
+                    disabled={!loaded.success}
+                    className="border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50"
+                  >
+                    <Copy className="w-3.5 h-3.5 mr-1.5" />
+                    {copied ? 'Copied' : 'Copy'}
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="pt-5 space-y-4">
+              <textarea
+                value={policyText}
+                onChange={(e) => setPolicyText(e.target.value)}
+                spellCheck={false}
+                rows={28}
+                className="w-full p-4 bg-gray-950/60 border border-gray-700/50 rounded-xl text-xs font-mono text-gray-200 resize-y focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              />
+
+              {loaded.success ? (
+                <div className="flex items-center gap-2 text-xs text-green-400 font-mono">
+                  <CheckCircle className="w-4 h-4" />
+                  Valid policy · {loaded.document.rules.length} rules · version {loaded.document.version}
+                </div>
+              ) : (
+                <div className="bg-gradient-to-r from-red-500/10 to-red-600/5 border border-red-500/50 rounded-xl p-4 space-y-2">
+                  <div className="flex items-center gap-2 text-sm font-semibold text-red-300">
+                    <AlertCircle className="w-4 h-4" />
+                    Invalid policy
+                  </div>
+                  <ul className="space-y-1">
+                    {loaded.errors.map((error, idx) => (
+                      <li key={idx} className="text-xs font-mono text-gray-300 flex items-start gap-2">
+                        <span className="text-red-400">▸</span>
+                        {error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Live preview */}
+          <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+            <CardHeader className="border-b border-gray-700/50 pb-4">
+              <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                <FlaskConical className="w-5 h-5 text-amber-400" />
+                Live Preview
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-5 space-y-5">
+              {/* Sample scores */}
+              <div className="space-y-2">
+                <h4 className="text-xs font-semibold text-gray-400 font-mono">Sample risk scores</h4>
+                {RISK_DIMENSIONS.map((dimension) => (
+                  <div key={dimension} className="flex items-center gap-3">
+                    <span className="text-lg opacity-50 w-6 text-center">{getDimensionIcon(dimension)}</span>
+                    <span className="text-xs text-gray-400 w-32 font-mono">{getDimensionLabel(dimension)}</span>
+                    <div className="flex gap-1.5">
+                      {getScoreLevels().map((level) => (
+                        <button
+                          key={level}
+                          onClick={() => setScores((prev) => ({ ...prev, [dimension]: level }))}
+                          className={`w-9 py-1 rounded-md text-xs font-mono font-bold border transition-all ${
+                            scores[dimension] === level
+                              ? `${getRiskBg(level)} ${getRiskColor(level)} border-transparent`
+                              : 'border-gray-700/50 text-gray-500 hover:text-gray-300'
+                          }`}
+                        >
+                          {level}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Sample plan */}
+              <div className="space-y-3">
+                <h4 className="text-xs font-semibold text-gray-400 font-mono">Sample plan</h4>
+                <Input
+                  value={sampleTask}
+                  onChange={(e) => setSampleTask(e.target.value)}
+                  placeholder="Task text, matched against rule keywords"
+                  className="bg-gray-800/50 border-gray-600/50 text-white placeholder-gray-500"
+                />
+                <div className="flex flex-wrap gap-2">
+                  {ACTION_TAGS.map((tag) => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      className={`px-3 py-1 rounded-lg text-xs border font-mono font-semibold transition-all ${
+                        sampleTags.includes(tag) ? getActionTagColor(tag) : 'border-gray-700/50 text-gray-500 hover:text-gray-300'
+                      }`}
+                    >
+                      {tag}
+                    </button>
+                  ))}
+                </div>
+                <Input
+                  value={sampleSystems}
+                  onChange={(e) => setSampleSystems(e.target.value)}
+                  placeholder="External systems, comma-separated"
+                  className="bg-gray-800/50 border-gray-600/50 text-white placeholder-gray-500"
+                />
+              </div>
+
+              {/* Verdict */}
+              {preview ? (
+                <div className="space-y-4">
+                  <div className={`${getVerdictBg(preview.type)} border-2 ${getVerdictBorder(preview.type)} rounded-2xl p-5 text-center space-y-2`}>
+                    <h3 className={`text-2xl font-bold ${getVerdictColor(preview.type)} tracking-wide`}>
+                      {preview.type.replace(/_/g, ' ')}
+                    </h3>
+                    <p className="text-xs font-mono text-gray-400">
+                      Score {preview.weightedScore.toFixed(2)} · Confidence {preview.confidence.toFixed(1)}%
+                    </p>
+                    {activeVerdict.type !== preview.type && (
+                      <p className="text-xs font-mono text-gray-500">
+                        Active policy:{' '}
+                        <span className={getVerdictColor(activeVerdict.type)}>{activeVerdict.type.replace(/_/g, ' ')}</span>
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-semibold text-gray-400 font-mono">Matched rules</h4>
+                    {matches.length === 0 && <p className="text-xs text-gray-500 font-mono">No rules match these inputs</p>}
+                    {matches.map((match) => (
+                      <div key={match.id} className="flex items-center gap-3 text-xs">
+                        <span className="font-mono text-gray-500 w-10 text-right">{match.priority}</span>
+                        <span className={`px-2 py-0.5 rounded font-mono font-semibold ${getVerdictBg(match.outcome)} ${getVerdictColor(match.outcome)}`}>
+                          {match.outcome.replace(/_/g, ' ')}
+                        </span>
+                        <span className="text-gray-300">{match.message}</span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-semibold text-gray-400 font-mono">Triggered rules</h4>
+                    <ul className="space-y-1">
+                      {preview.triggeredRules.map((rule, idx) => (
+                        <li key={idx} className="text-xs text-gray-400 flex items-start gap-2">
+                          <span className={getVerdictColor(preview.type)}>▸</span>
+                          <span>{rule}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500 font-mono text-center py-8">Fix the policy to see a preview</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { fetchRegressionRuns, GOLDEN_SET, runRegressionSuite, type RegressionRun, type ScoreDrift } from '@/lib/regression'
+import { getDimensionLabel, RISK_DIMENSIONS } from '@/lib/riskDimensions'
+import { getDimensionIcon, getRiskBg, getRiskColor, getVerdictBg, getVerdictColor } from '@/lib/sentinelStyles'
+import type { VerdictType } from '@/lib/decisionEngine'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2, Play, TestTubes, XCircle } from 'lucide-react'
+
+type ProviderChoice = 'configured' | 'mock'
+
+function VerdictBadge({ type }: { type: VerdictType }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-mono font-semibold whitespace-nowrap ${getVerdictBg(type)} ${getVerdictColor(type)}`}>
+      {type.replace(/_/g, ' ')}
+    </span>
+  )
+}
+
+// Falling scores loosen governance, so they are shown in red
+function DriftValue({ change }: { change?: number }) {
+  if (!change) return null
+  return (
+    <span className={`text-[10px] font-mono ${change < 0 ? 'text-red-400' : 'text-amber-400'}`}>
+      {change > 0 ? '+' : ''}
+      {change}
+    </span>
+  )
+}
+
+function DriftSummary({ drift }: { drift: ScoreDrift }) {
+  const changed = RISK_DIMENSIONS.filter((dimension) => drift[dimension])
+  if (changed.length === 0) return <span className="text-xs font-mono text-gray-500">No score drift</span>
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {changed.map((dimension) => (
+        <span key={dimension} className="px-2 py-0.5 rounded border border-gray-700/50 text-xs font-mono text-gray-300 flex items-center gap-1.5">
+          {getDimensionLabel(dimension)}
+          <DriftValue change={drift[dimension]} />
+        </span>
+      ))}
+    </div>
+  )
+}
+
+export default function RegressionPage() {
+  const [runs, setRuns] = useState<RegressionRun[]>([])
+  const [provider, setProvider] = useState<ProviderChoice>('configured')
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchRegressionRuns().then((data) => {
+      if (data.success) setRuns(data.runs || [])
+    })
+  }, [])
+
+  const latest = runs[0]
+
+  const handleRun = async () => {
+    setRunning(true)
+    setError(null)
+
+    const data = await runRegressionSuite({ provider: provider === 'mock' ? 'mock' : undefined })
+    if (data.success && data.run) {
+      setRuns((prev) => [data.run, ...prev])
+    } else {
+      setError([data.error, ...(data.errors || [])].filter(Boolean).join(' · ') || 'Regression run failed')
+    }
+
+    setRunning(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0f1a] via-[#0d1420] to-[#0a0f1a] text-white p-6 md:p-8 lg:p-12">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <TestTubes className="w-10 h-10 text-blue-400" />
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold bg-gradient-to-r from-blue-400 via-cyan-400 to-blue-500 bg-clip-text text-transparent">
+                REGRESSION SUITE
+              </h1>
+              <p className="text-sm text-gray-500 mt-1 font-mono">
+                Golden tasks from config/golden_set.json with the verdicts Sentinel must keep reaching
+              </p>
+            </div>
+          </div>
+          <Button asChild variant="outline" className="border-gray-600/50 hover:border-gray-400 bg-gray-800/30 hover:bg-gray-700/50">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Sentinel
+            </Link>
+          </Button>
+        </div>
+
+        {/* Golden set */}
+        <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+          <CardHeader className="border-b border-gray-700/50 pb-4">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <CardTitle className="text-lg font-semibold">
+                Golden Set
+                <span className="ml-3 text-xs font-mono text-gray-500">
+                  version {GOLDEN_SET.version} · {GOLDEN_SET.cases.length} cases
+                </span>
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                {(['configured', 'mock'] as ProviderChoice[]).map((choice) => (
+                  <button
+                    key={choice}
+                    onClick={() => setProvider(choice)}
+                    disabled={running}
+                    className={`px-3 py-1.5 rounded-lg text-xs border font-mono font-semibold transition-all ${
+                      provider === choice
+                        ? 'bg-blue-500/20 text-blue-300 border-blue-500/50'
+                        : 'border-gray-700/50 text-gray-500 hover:text-gray-300'
+                    }`}
+                  >
+                    {choice === 'mock' ? 'Mock provider' : 'Configured agents'}
+                  </button>
+                ))}
+                <Button
+                  onClick={handleRun}
+                  disabled={running}
+                  className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500"
+                >
+                  {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                  {running ? 'Running' : 'Run Suite'}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-4 space-y-3">
+            {error && (
+              <div className="bg-gradient-to-r from-red-500/10 to-red-600/5 border border-red-500/50 rounded-xl p-4 flex items-center gap-2 text-sm text-red-300">
+                <AlertCircle className="w-4 h-4 shrink-0" />
+                {error}
+              </div>
+            )}
+            {GOLDEN_SET.cases.map((goldenCase) => (
+              <div key={goldenCase.id} className="flex flex-col md:flex-row md:items-center gap-2 md:gap-4 text-sm">
+                <span className="font-mono text-xs text-blue-300 md:w-48 shrink-0">{goldenCase.id}</span>
+                <span className="text-gray-300 flex-1">{goldenCase.task}</span>
+                <div className="flex flex-wrap items-center gap-2">
+                  {Object.entries(goldenCase.expected_scores || {}).map(([dimension, range]) => (
+                    <span key={dimension} className="text-[10px] font-mono text-gray-500">
+                      {getDimensionIcon(dimension)} {range.min ?? 0}–{range.max ?? 3}
+                    </span>
+                  ))}
+                  <VerdictBadge type={goldenCase.expected_verdict} />
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Latest run */}
+        {latest && (
+          <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+            <CardHeader className="border-b border-gray-700/50 pb-4 space-y-3">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                  {latest.failed === 0 ? (
+                    <CheckCircle className="w-5 h-5 text-green-400" />
+                  ) : (
+                    <XCircle className="w-5 h-5 text-red-400" />
+                  )}
+                  {latest.passed} passed · {latest.failed} failed
+                </CardTitle>
+                <span className="text-xs font-mono text-gray-500">
+                  {latest.provider || 'configured agents'} · set {latest.golden_set_version} ·{' '}
+                  {new Date(latest.completed_at).toLocaleString()}
+                </span>
+              </div>
+              {latest.previous_run_id ? (
+                <DriftSummary drift={latest.drift} />
+              ) : (
+                <span className="text-xs font-mono text-gray-500">No previous run on this provider to compare against</span>
+              )}
+            </CardHeader>
+            <CardContent className="pt-2">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-700/50 hover:bg-transparent">
+                    <TableHead className="text-gray-400">Case</TableHead>
+                    <TableHead className="text-gray-400">Expected</TableHead>
+                    <TableHead className="text-gray-400">Actual</TableHead>
+                    {RISK_DIMENSIONS.map((dimension) => (
+                      <TableHead key={dimension} className="text-center text-gray-400" title={getDimensionLabel(dimension)}>
+                        {getDimensionIcon(dimension)}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-gray-400">Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {latest.results.map((result) => (
+                    <TableRow key={result.id} className="border-gray-700/50 hover:bg-gray-800/30 align-top">
+                      <TableCell className="font-mono text-xs text-blue-300">{result.id}</TableCell>
+                      <TableCell>
+                        <VerdictBadge type={result.expected_verdict} />
+                      </TableCell>
+                      <TableCell>{result.verdict ? <VerdictBadge type={result.verdict} /> : <span className="text-xs font-mono text-red-400">ERROR</span>}</TableCell>
+                      {RISK_DIMENSIONS.map((dimension) => {
+                        const score = result.risk_scores?.[dimension]
+                        return (
+                          <TableCell key={dimension} className="text-center">
+                            {score !== undefined ? (
+                              <div className="flex flex-col items-center gap-0.5">
+                                <span className={`px-2 py-0.5 rounded text-xs font-bold ${getRiskBg(score)} ${getRiskColor(score)}`}>{score}</span>
+                                <DriftValue change={result.drift?.[dimension]} />
+                              </div>
+                            ) : (
+                              <span className="text-gray-600">—</span>
+                            )}
+                          </TableCell>
+                        )
+                      })}
+                      <TableCell>
+                        {result.passed ? (
+                          <span className="text-xs font-mono font-semibold text-green-400">PASS</span>
+                        ) : (
+                          <div className="space-y-0.5">
+                            <span className="text-xs font-mono font-semibold text-red-400">FAIL</span>
+                            {result.failures.map((failure, idx) => (
+                              <p key={idx} className="text-xs text-gray-400">
+                                {failure}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Earlier runs */}
+        {runs.length > 1 && (
+          <Card className="bg-gray-900/40 border-gray-700/50 backdrop-blur-xl">
+            <CardHeader className="border-b border-gray-700/50 pb-4">
+              <CardTitle className="text-lg font-semibold">Earlier Runs</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-4 space-y-2">
+              {runs.slice(1).map((run) => (
+                <div key={run.id} className="flex items-center gap-4 text-xs font-mono">
+                  <span className="text-gray-500 w-44">{new Date(run.completed_at).toLocaleString()}</span>
+                  <span className="text-gray-400 w-36">{run.provider || 'configured agents'}</span>
+                  <span className={run.failed === 0 ? 'text-green-400' : 'text-red-400'}>
+                    {run.passed} passed · {run.failed} failed
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
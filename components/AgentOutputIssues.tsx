@@ -0,0 +1,44 @@
+'use client'
+
+import type { AgentRole } from '@/lib/agentRegistry'
+import { hasSchemaErrors, type SchemaIssue } from '@/lib/responseSchema'
+import { AlertTriangle, FileWarning } from 'lucide-react'
+
+interface AgentOutputIssuesProps {
+  agent: AgentRole
+  issues: SchemaIssue[]
+}
+
+export function AgentOutputIssues({ agent, issues }: AgentOutputIssuesProps) {
+  if (issues.length === 0) return null
+
+  const malformed = hasSchemaErrors(issues)
+  const agentName = agent === 'worker' ? 'Worker Agent' : 'Sentinel Agent'
+
+  return (
+    <div
+      className={`border rounded-xl p-4 space-y-2 backdrop-blur-sm ${
+        malformed ? 'bg-gradient-to-r from-red-500/10 to-red-600/5 border-red-500/50' : 'bg-amber-500/5 border-amber-500/30'
+      }`}
+    >
+      <div className={`flex items-center gap-2 text-sm font-semibold ${malformed ? 'text-red-300' : 'text-amber-300'}`}>
+        {malformed ? <FileWarning className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+        {malformed ? `Malformed ${agentName} output` : `${agentName} output adjusted`}
+      </div>
+      <p className="text-xs text-gray-400">
+        {malformed
+          ? 'The response does not match its schema, so no verdict was calculated. Re-run the step to try again.'
+          : 'The response was corrected before scoring:'}
+      </p>
+      <ul className="space-y-1">
+        {issues.map((issue, idx) => (
+          <li key={idx} className="text-xs font-mono flex items-start gap-2">
+            <span className={issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}>▸</span>
+            <span className="text-gray-500">{issue.path}</span>
+            <span className="text-gray-300">{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+'use client'
+
+import { useCopyToClipboard } from '@/lib/clipboard'
+import { Check, Link2 } from 'lucide-react'
+
+interface AssessmentLinkButtonProps {
+  assessmentId: string
+  className?: string
+}
+
+/**
+ * Copies the permalink of a stored assessment, for sending to a reviewer
+ */
+export function AssessmentLinkButton({ assessmentId, className = '' }: AssessmentLinkButtonProps) {
+  const [copy, copied] = useCopyToClipboard()
+
+  return (
+    <button
+      onClick={() => copy(`${window.location.origin}/assessments/${assessmentId}`)}
+      className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50 text-xs font-mono text-gray-300 transition-all ${className}`}
+    >
+      {copied ? <Check className="w-3.5 h-3.5 text-emerald-400" /> : <Link2 className="w-3.5 h-3.5" />}
+      {copied ? 'Link copied' : 'Copy link'}
+    </button>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface AssessmentPanelProps {
+  icon: ReactNode
+  title: string
+  /** Position in the Task → Plan → Verdict flow, shown as 01, 02, 03 */
+  index: number
+  /** Status dot classes, e.g. lit and pulsing while the step is active */
+  dotClassName: string
+  className?: string
+  children?: ReactNode
+}
+
+/**
+ * One of the three numbered assessment panels
+ */
+export function AssessmentPanel({ icon, title, index, dotClassName, className = '', children }: AssessmentPanelProps) {
+  return (
+    <Card className={`bg-gray-900/40 border backdrop-blur-xl transition-all duration-700 ${className}`}>
+      <CardHeader className="border-b border-gray-700/50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            {icon}
+            <CardTitle className="text-lg font-semibold">{title}</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className={`w-2 h-2 rounded-full ${dotClassName}`}></div>
+            <span className="text-5xl font-mono font-bold text-gray-700">{String(index).padStart(2, '0')}</span>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-6">{children}</CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,60 @@
+'use client'
+
+import { useState } from 'react'
+import type { ClarifyingQuestion } from '@/lib/clarification'
+import type { ClarificationAnswer } from '@/lib/assessment'
+import { Button } from '@/components/ui/button'
+import { HelpCircle, Loader2, RotateCcw } from 'lucide-react'
+
+interface ClarificationFormProps {
+  questions: ClarifyingQuestion[]
+  onSubmit: (answers: ClarificationAnswer[]) => void
+  loading?: boolean
+}
+
+export function ClarificationForm({ questions, onSubmit, loading = false }: ClarificationFormProps) {
+  const [answers, setAnswers] = useState<Record<string, string>>({})
+
+  const hasAnswer = questions.some((question) => (answers[question.id] || '').trim().length > 0)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit(
+      questions.map((question) => ({
+        question: question.question,
+        answer: answers[question.id] || '',
+      }))
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+      {questions.map((question) => (
+        <label key={question.id} className="block space-y-1.5">
+          <span className="text-xs text-amber-200 flex items-start gap-2 leading-relaxed">
+            <HelpCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            {question.question}
+          </span>
+          <textarea
+            value={answers[question.id] || ''}
+            onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
+            disabled={loading}
+            rows={2}
+            className="w-full p-2.5 bg-gray-800/50 border border-gray-600/50 rounded-lg text-sm text-white placeholder-gray-500 resize-none focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+            placeholder="Your answer..."
+          />
+        </label>
+      ))}
+      <Button
+        type="submit"
+        disabled={loading || !hasAnswer}
+        className="w-full bg-gradient-to-r from-amber-600 to-amber-700 hover:from-amber-700 hover:to-amber-800 shadow-lg shadow-amber-500/30 transition-all duration-300 font-semibold"
+      >
+        {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+        Re-assess with Answers
+      </Button>
+    </form>
+  )
+}
+
+export default ClarificationForm
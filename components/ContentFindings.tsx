@@ -0,0 +1,34 @@
+'use client'
+
+import { describeFindingLocation, type ScanFinding } from '@/lib/contentScanner'
+import { ScanSearch } from 'lucide-react'
+
+interface ContentFindingsProps {
+  findings: ScanFinding[]
+  /** Note shown under the heading, e.g. that the task will be redacted */
+  note?: string
+}
+
+export function ContentFindings({ findings, note }: ContentFindingsProps) {
+  if (findings.length === 0) return null
+
+  return (
+    <div className="bg-amber-500/5 border border-amber-500/30 rounded-xl p-4 space-y-2 backdrop-blur-sm">
+      <div className="flex items-center gap-2 text-sm font-semibold text-amber-300">
+        <ScanSearch className="w-4 h-4" />
+        {findings.length} sensitive item{findings.length > 1 ? 's' : ''} detected
+      </div>
+      {note && <p className="text-xs text-gray-400">{note}</p>}
+      <ul className="space-y-1">
+        {findings.map((finding, idx) => (
+          <li key={idx} className="text-xs font-mono flex items-start gap-2">
+            <span className={finding.kind === 'banned_phrase' ? 'text-red-400' : 'text-amber-400'}>▸</span>
+            <span className="text-gray-300">{finding.label}</span>
+            <span className="text-gray-500">{finding.excerpt}</span>
+            <span className="text-gray-600 ml-auto">{describeFindingLocation(finding)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { getActionTagColor } from '@/lib/sentinelStyles'
+import type { ListDiff, PlanDiff, StepChange } from '@/lib/planDiff'
+
+interface PlanDiffViewProps {
+  diff: PlanDiff
+  /** Also list steps that did not change */
+  showUnchanged?: boolean
+}
+
+const STEP_CHANGE_STYLES: Record<StepChange['kind'], string> = {
+  added: 'border-emerald-500/40 bg-emerald-500/5 text-emerald-300',
+  removed: 'border-red-500/40 bg-red-500/5 text-red-300 line-through decoration-red-400/60',
+  changed: 'border-amber-500/40 bg-amber-500/5 text-amber-200',
+  unchanged: 'border-gray-700/50 text-gray-500',
+}
+
+const STEP_CHANGE_MARKERS: Record<StepChange['kind'], string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+  unchanged: '=',
+}
+
+function ListChanges({ label, diff }: { label: string; diff: ListDiff }) {
+  if (diff.added.length === 0 && diff.removed.length === 0) return null
+
+  return (
+    <div className="text-[11px] space-y-1">
+      <span className="text-gray-500 font-mono">{label}</span>
+      {diff.added.map((item) => (
+        <div key={`+${item}`} className="text-emerald-300">+ {item}</div>
+      ))}
+      {diff.removed.map((item) => (
+        <div key={`-${item}`} className="text-red-300 line-through decoration-red-400/60">− {item}</div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Step, resource and external system changes between two plans
+ */
+export function PlanDiffView({ diff, showUnchanged = false }: PlanDiffViewProps) {
+  return (
+    <div className="space-y-1.5">
+      {!diff.hasChanges && <p className="text-[11px] text-gray-500">No changes to the plan</p>}
+      {diff.steps
+        .filter((change) => showUnchanged || change.kind !== 'unchanged')
+        .map((change, changeIdx) => {
+          const step = change.after || change.before
+          return (
+            <div key={changeIdx} className={`border rounded-lg px-2.5 py-1.5 text-[11px] leading-relaxed ${STEP_CHANGE_STYLES[change.kind]}`}>
+              <div className="flex items-center gap-2 mb-0.5">
+                <span className="font-mono">{STEP_CHANGE_MARKERS[change.kind]} #{step.step_number}</span>
+                {change.changedFields.includes('action_tag') && change.before && (
+                  <span className={`px-1.5 rounded border font-mono text-[10px] ${getActionTagColor(change.before.action_tag)}`}>
+                    {change.before.action_tag}
+                  </span>
+                )}
+                {change.changedFields.includes('action_tag') && <span className="text-gray-500">→</span>}
+                <span className={`px-1.5 rounded border font-mono text-[10px] ${getActionTagColor(step.action_tag)}`}>
+                  {step.action_tag}
+                </span>
+              </div>
+              {change.changedFields.includes('action') && change.before && (
+                <span className="block text-red-300/80 line-through decoration-red-400/60">{change.before.action}</span>
+              )}
+              <span>{step.action}</span>
+            </div>
+          )
+        })}
+      <ListChanges label="Resources" diff={diff.resources_needed} />
+      <ListChanges label="External systems" diff={diff.external_systems} />
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+'use client'
+
+import { diffPlans } from '@/lib/planDiff'
+import { getVerdictColor } from '@/lib/sentinelStyles'
+import type { PlanIteration } from '@/lib/assessment'
+import { PlanDiffView } from '@/components/PlanDiffView'
+import { GitCompare } from 'lucide-react'
+
+interface PlanRevisionHistoryProps {
+  iterations: PlanIteration[]
+}
+
+export function PlanRevisionHistory({ iterations }: PlanRevisionHistoryProps) {
+  if (iterations.length < 2) return null
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl p-5 backdrop-blur-sm space-y-4">
+      <h4 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
+        <GitCompare className="w-4 h-4" />
+        Plan Revisions
+      </h4>
+
+      {iterations.map((iteration, idx) => {
+        const previous = iterations[idx - 1]
+        const diff = previous ? diffPlans(previous.plan, iteration.plan) : null
+
+        return (
+          <div key={iteration.iteration} className="space-y-2">
+            <div className="flex items-center gap-3 text-xs font-mono">
+              <span className="text-gray-400">v{iteration.iteration}</span>
+              <span className={`font-semibold ${getVerdictColor(iteration.verdict.type)}`}>
+                {iteration.verdict.type.replace(/_/g, ' ')}
+              </span>
+              <span className="text-gray-500">score {iteration.verdict.weightedScore.toFixed(2)}</span>
+            </div>
+
+            {diff && (
+              <div className="pl-4 border-l border-gray-700/50">
+                <PlanDiffView diff={diff} />
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default PlanRevisionHistory
@@ -0,0 +1,36 @@
+'use client'
+
+import { FileJson, FileText, Printer } from 'lucide-react'
+
+interface ReportExportButtonsProps {
+  assessmentId: string
+  className?: string
+}
+
+const linkClassName =
+  'inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-gray-600/50 bg-gray-800/30 hover:bg-gray-700/50 text-xs font-mono text-gray-300 transition-all'
+
+/**
+ * Download links for the signed report of a stored assessment
+ */
+export function ReportExportButtons({ assessmentId, className = '' }: ReportExportButtonsProps) {
+  const reportUrl = (query: string) => `/api/assessments/${assessmentId}/report?${query}`
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <span className="text-xs text-gray-500 font-mono">Report</span>
+      <a href={reportUrl('format=md&download=1')} className={linkClassName}>
+        <FileText className="w-3.5 h-3.5" />
+        Markdown
+      </a>
+      <a href={reportUrl('format=json&download=1')} className={linkClassName}>
+        <FileJson className="w-3.5 h-3.5" />
+        JSON
+      </a>
+      <a href={reportUrl('format=html&print=1')} target="_blank" rel="noopener noreferrer" className={linkClassName}>
+        <Printer className="w-3.5 h-3.5" />
+        Print / PDF
+      </a>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { getDimensionLabel, RISK_DIMENSIONS } from '@/lib/riskDimensions'
+import { getDimensionIcon, getRiskBg, getRiskColor, getVerdictBg, getVerdictBorder } from '@/lib/sentinelStyles'
+import type { AssessmentRecord } from '@/lib/assessment'
+
+interface RiskHeatmapProps {
+  /** Columns, left to right */
+  records: AssessmentRecord[]
+  onSelect?: (id: string) => void
+}
+
+/**
+ * BLOCK verdicts each dimension led: the dimensions with the record's highest
+ * score, ties counted for each
+ */
+function countBlockDrivers(records: AssessmentRecord[]): Record<string, number> {
+  const counts: Record<string, number> = Object.fromEntries(RISK_DIMENSIONS.map((dimension) => [dimension, 0]))
+
+  for (const record of records) {
+    if (record.verdict.type !== 'BLOCK') continue
+    const scores = record.sentinel.risk_scores
+    const highest = Math.max(...RISK_DIMENSIONS.map((dimension) => scores[dimension] ?? 0))
+    if (highest <= 0) continue
+    for (const dimension of RISK_DIMENSIONS) {
+      if ((scores[dimension] ?? 0) === highest) counts[dimension]++
+    }
+  }
+
+  return counts
+}
+
+/**
+ * Heatmap of risk dimensions × assessments, with how many blocks each dimension drove
+ */
+export function RiskHeatmap({ records, onSelect }: RiskHeatmapProps) {
+  if (records.length === 0) return null
+
+  const blockDrivers = countBlockDrivers(records)
+  const blocks = records.filter((record) => record.verdict.type === 'BLOCK').length
+  const maxDriver = Math.max(1, ...Object.values(blockDrivers))
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-1 text-xs font-mono">
+        <thead>
+          <tr>
+            <th />
+            {records.map((record) => (
+              <th key={record.id} className="p-0">
+                <button
+                  onClick={() => onSelect?.(record.id)}
+                  title={`${record.verdict.type.replace(/_/g, ' ')} · ${new Date(record.completed_at).toLocaleString()}\n${record.task}`}
+                  className={`block w-7 h-2 rounded-sm ${getVerdictBg(record.verdict.type)} border ${getVerdictBorder(record.verdict.type)}`}
+                />
+              </th>
+            ))}
+            <th className="pl-3 text-left font-normal text-gray-500 whitespace-nowrap">Blocks led</th>
+          </tr>
+        </thead>
+        <tbody>
+          {RISK_DIMENSIONS.map((dimension) => (
+            <tr key={dimension}>
+              <th className="pr-3 text-left font-normal text-gray-400 whitespace-nowrap">
+                <span className="opacity-50 mr-2">{getDimensionIcon(dimension)}</span>
+                {getDimensionLabel(dimension)}
+              </th>
+              {records.map((record) => {
+                const score = record.sentinel.risk_scores[dimension] ?? 0
+                return (
+                  <td key={record.id} className="p-0">
+                    <button
+                      onClick={() => onSelect?.(record.id)}
+                      title={`${getDimensionLabel(dimension)}: ${score}`}
+                      className={`w-7 h-7 rounded ${getRiskBg(score)} ${getRiskColor(score)} font-bold hover:ring-1 hover:ring-gray-400 transition-all`}
+                    >
+                      {score}
+                    </button>
+                  </td>
+                )
+              })}
+              <td className="pl-3">
+                <div className="flex items-center gap-2">
+                  <div className="w-24 h-2 rounded-full bg-gray-700/30 overflow-hidden">
+                    <div className="h-full bg-red-500/70 rounded-full" style={{ width: `${(blockDrivers[dimension] / maxDriver) * 100}%` }} />
+                  </div>
+                  <span className={blockDrivers[dimension] > 0 ? 'text-red-400' : 'text-gray-600'}>
+                    {blockDrivers[dimension]}/{blocks}
+                  </span>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
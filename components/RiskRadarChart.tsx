@@ -0,0 +1,61 @@
+'use client'
+
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from 'recharts'
+import { getBlockThresholds, type DecisionPolicy, type RiskScores } from '@/lib/decisionEngine'
+import { getDimensionLabel, RISK_DIMENSIONS, RISK_SCORE_RANGE } from '@/lib/riskDimensions'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+
+interface RiskRadarChartProps {
+  scores: RiskScores
+  /** Policy whose BLOCK rules set the threshold overlay */
+  policy?: DecisionPolicy
+  className?: string
+}
+
+const SCORE_COLOR = '#60a5fa'
+const THRESHOLD_COLOR = '#ef4444'
+
+/**
+ * Radar of the risk scores with the policy's BLOCK thresholds overlaid
+ *
+ * Dimensions no BLOCK rule scores have no threshold point; the outline joins
+ * the ones that do.
+ */
+export function RiskRadarChart({ scores, policy, className = '' }: RiskRadarChartProps) {
+  const thresholds = getBlockThresholds(policy)
+  const data = RISK_DIMENSIONS.map((dimension) => ({
+    dimension: getDimensionLabel(dimension),
+    score: scores[dimension] ?? 0,
+    threshold: thresholds.scores[dimension] ?? null,
+  }))
+  const chartConfig = {
+    score: { label: 'Score', color: SCORE_COLOR },
+    threshold: {
+      label: thresholds.approximated.length > 0 ? 'Block threshold (multi-condition rules approximated)' : 'Block threshold',
+      color: THRESHOLD_COLOR,
+    },
+  } satisfies ChartConfig
+
+  return (
+    <ChartContainer config={chartConfig} className={`aspect-square max-h-[300px] mx-auto ${className}`}>
+      <RadarChart data={data} outerRadius="70%">
+        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+        <PolarGrid stroke="#374151" />
+        <PolarAngleAxis dataKey="dimension" tick={{ fill: '#9ca3af', fontSize: 10 }} />
+        <PolarRadiusAxis domain={[RISK_SCORE_RANGE.min, RISK_SCORE_RANGE.max]} tickCount={RISK_SCORE_RANGE.max - RISK_SCORE_RANGE.min + 1} axisLine={false} tick={false} />
+        <Radar
+          dataKey="threshold"
+          stroke="var(--color-threshold)"
+          strokeDasharray="4 4"
+          strokeWidth={1.5}
+          fill="transparent"
+          dot={{ r: 2.5, fill: 'var(--color-threshold)', fillOpacity: 1 }}
+          connectNulls
+          isAnimationActive={false}
+        />
+        <Radar dataKey="score" stroke="var(--color-score)" fill="var(--color-score)" fillOpacity={0.35} strokeWidth={2} />
+        <ChartLegend content={<ChartLegendContent />} />
+      </RadarChart>
+    </ChartContainer>
+  )
+}
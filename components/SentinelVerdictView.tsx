@@ -0,0 +1,217 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import { findOffendingSteps } from '@/lib/stepScoring'
+import { getDimensionLabel, getScoreLevels, RISK_DIMENSIONS } from '@/lib/riskDimensions'
+import {
+  getDimensionIcon,
+  getRequiredAction,
+  getRiskBg,
+  getRiskColor,
+  getRiskGradient,
+  getRiskLevel,
+  getVerdictBg,
+  getVerdictBorder,
+  getVerdictColor,
+  getVerdictGlow,
+} from '@/lib/sentinelStyles'
+import type { Verdict, VerdictType } from '@/lib/decisionEngine'
+import type { SentinelResult } from '@/lib/assessment'
+import { RiskRadarChart } from '@/components/RiskRadarChart'
+import { Activity, AlertCircle, AlertTriangle, CheckCircle, ChevronDown, Eye, XCircle } from 'lucide-react'
+
+interface SentinelVerdictViewProps {
+  verdict: Verdict
+  sentinel: SentinelResult
+  defaultShowExplanations?: boolean
+  /** Follow-up controls shown under the required action, e.g. Revise Plan */
+  children?: ReactNode
+}
+
+function getVerdictIcon(type: VerdictType) {
+  switch (type) {
+    case 'APPROVE':
+      return <CheckCircle className="w-12 h-12" />
+    case 'APPROVE_WITH_NOTICE':
+      return <CheckCircle className="w-12 h-12" />
+    case 'ASK_FOR_CLARIFICATION':
+      return <AlertTriangle className="w-12 h-12" />
+    case 'MODIFY':
+      return <AlertCircle className="w-12 h-12" />
+    case 'BLOCK':
+      return <XCircle className="w-12 h-12" />
+  }
+}
+
+/**
+ * Verdict badge, risk matrix, triggered rules, risk explanations and required action
+ */
+export function SentinelVerdictView({ verdict, sentinel, defaultShowExplanations = false, children }: SentinelVerdictViewProps) {
+  const [showExplanations, setShowExplanations] = useState(defaultShowExplanations)
+
+  const offendingSteps = findOffendingSteps(sentinel)
+  const drivingSteps = (dimension: string) =>
+    Object.keys(offendingSteps).filter((stepNumber) =>
+      offendingSteps[Number(stepNumber)].includes(dimension)
+    )
+
+  // Registry order, so configured dimensions the Sentinel skipped still show
+  const matrixScores = RISK_DIMENSIONS.map((dimension) => ({
+    dimension,
+    score: sentinel.risk_scores[dimension] ?? 0,
+  }))
+  const ensemble = sentinel.ensemble
+
+  return (
+    <div className="space-y-5">
+      {/* Verdict Badge */}
+      <div className={`${getVerdictBg(verdict.type)} border-2 ${getVerdictBorder(verdict.type)} rounded-2xl p-6 text-center space-y-4 animate-in fade-in duration-1000 shadow-2xl ${getVerdictGlow(verdict.type)}`}>
+        <div className={`flex items-center justify-center ${getVerdictColor(verdict.type)} animate-in zoom-in duration-700`}>
+          {getVerdictIcon(verdict.type)}
+        </div>
+        <h3 className={`text-3xl font-bold ${getVerdictColor(verdict.type)} tracking-wide`}>
+          {verdict.type.replace(/_/g, ' ')}
+        </h3>
+        <div className="flex items-center justify-center gap-4 text-sm font-mono">
+          <div className="flex items-center gap-2 bg-gray-900/50 px-3 py-1.5 rounded-lg backdrop-blur-sm">
+            <span className="text-gray-500">Confidence:</span>
+            <span className={getVerdictColor(verdict.type)}>{verdict.confidence.toFixed(1)}%</span>
+          </div>
+          <div className="flex items-center gap-2 bg-gray-900/50 px-3 py-1.5 rounded-lg backdrop-blur-sm">
+            <span className="text-gray-500">Score:</span>
+            <span className={getVerdictColor(verdict.type)}>{verdict.weightedScore.toFixed(2)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Risk Matrix */}
+      <div className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl p-5 backdrop-blur-sm">
+        <h4 className="text-sm font-semibold text-gray-400 mb-4 flex items-center gap-2">
+          <Activity className="w-4 h-4" />
+          Risk Matrix
+          {ensemble && (
+            <span className="ml-auto text-[10px] font-mono font-normal text-gray-500">
+              {ensemble.evaluations.length} evaluators · {ensemble.strategy}
+            </span>
+          )}
+        </h4>
+        <RiskRadarChart scores={sentinel.risk_scores} className="mb-4" />
+        <div className="space-y-3">
+          {matrixScores.map(({ dimension, score }) => (
+            <div key={dimension} className="group">
+              <div className="flex items-center gap-3">
+                <span className="text-lg opacity-50 w-6 text-center">{getDimensionIcon(dimension)}</span>
+                <span className="text-xs text-gray-400 w-32 font-mono capitalize">
+                  {getDimensionLabel(dimension)}
+                  {drivingSteps(dimension).length > 0 && (
+                    <span className="block text-[10px] normal-case text-gray-500">
+                      step {drivingSteps(dimension).join(', ')}
+                    </span>
+                  )}
+                </span>
+                <div className="flex items-center gap-3 flex-1">
+                  <div className={`px-4 py-1.5 rounded-lg font-mono text-sm font-bold min-w-[3rem] text-center bg-gradient-to-br ${getRiskGradient(score)} border ${
+                    getRiskLevel(score) === 0 ? 'border-gray-500/30' :
+                    getRiskLevel(score) === 1 ? 'border-blue-500/30' :
+                    getRiskLevel(score) === 2 ? 'border-amber-500/30' :
+                    'border-red-500/30'
+                  } ${getRiskColor(score)} shadow-lg`}>
+                    {score}
+                  </div>
+                  {ensemble && (
+                    <span
+                      title={`Evaluator scores: ${ensemble.evaluations.map((evaluation) => evaluation.risk_scores[dimension] ?? 0).join(', ')}`}
+                      className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${
+                        ensemble.disagreements.includes(dimension)
+                          ? 'text-amber-300 border-amber-500/50 bg-amber-500/10'
+                          : 'text-gray-500 border-gray-700/50'
+                      }`}
+                    >
+                      ±{ensemble.spread[dimension] ?? 0}
+                    </span>
+                  )}
+                  <div className="flex gap-1.5 flex-1">
+                    {getScoreLevels().map((level) => (
+                      <div
+                        key={level}
+                        className={`h-2 flex-1 rounded-full transition-all duration-500 ${
+                          level <= score
+                            ? `${getRiskBg(score)} shadow-lg ${
+                                getRiskLevel(score) === 3 ? 'shadow-red-500/50' :
+                                getRiskLevel(score) === 2 ? 'shadow-amber-500/50' :
+                                getRiskLevel(score) === 1 ? 'shadow-blue-500/50' :
+                                'shadow-gray-500/50'
+                              }`
+                            : 'bg-gray-700/30'
+                        }`}
+                        style={{ transitionDelay: `${level * 100}ms` }}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Triggered Rules */}
+      <div className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl p-5 backdrop-blur-sm">
+        <h4 className="text-sm font-semibold text-gray-400 mb-3 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4" />
+          Triggered Rules
+        </h4>
+        <ul className="space-y-2">
+          {verdict.triggeredRules.map((rule, idx) => (
+            <li key={idx} className="text-xs text-gray-400 flex items-start gap-2 leading-relaxed">
+              <span className={`${getVerdictColor(verdict.type)} mt-0.5`}>▸</span>
+              <span>{rule}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Risk Explanations */}
+      <div className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl overflow-hidden backdrop-blur-sm">
+        <button
+          onClick={() => setShowExplanations(!showExplanations)}
+          className="w-full px-5 py-4 flex items-center justify-between hover:bg-gray-700/30 transition-colors duration-200"
+        >
+          <h4 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
+            <Eye className="w-4 h-4" />
+            Risk Explanations
+          </h4>
+          <ChevronDown className={`w-4 h-4 text-gray-500 transition-transform duration-300 ${showExplanations ? 'rotate-180' : ''}`} />
+        </button>
+        {showExplanations && (
+          <div className="px-5 pb-4 space-y-3 border-t border-gray-700/50 pt-4">
+            {Object.entries(sentinel.risk_explanations).map(([dimension, explanation]) => (
+              <div key={dimension} className="space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-mono text-gray-500 capitalize flex items-center gap-2">
+                    <span className="text-base opacity-50">{getDimensionIcon(dimension)}</span>
+                    {getDimensionLabel(dimension)}
+                  </span>
+                  <div className={`px-2 py-0.5 rounded text-xs font-bold ${getRiskBg(sentinel.risk_scores[dimension])} ${getRiskColor(sentinel.risk_scores[dimension])}`}>
+                    {sentinel.risk_scores[dimension]}
+                  </div>
+                </div>
+                <p className="text-xs text-gray-400 leading-relaxed pl-7">{explanation}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Required Action */}
+      <div className={`${getVerdictBg(verdict.type)} border-2 ${getVerdictBorder(verdict.type)} rounded-xl p-5 shadow-lg ${getVerdictGlow(verdict.type)}`}>
+        <h4 className="text-sm font-semibold text-gray-300 mb-2 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          Required Action
+        </h4>
+        <p className="text-sm text-gray-300 leading-relaxed">{getRequiredAction(verdict.type)}</p>
+        {children}
+      </div>
+    </div>
+  )
+}
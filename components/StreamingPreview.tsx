@@ -0,0 +1,69 @@
+'use client'
+
+import type { PlanStep } from '@/lib/assessment'
+import type { RiskScores } from '@/lib/decisionEngine'
+import { getDimensionLabel, RISK_DIMENSIONS } from '@/lib/riskDimensions'
+import { getActionTagColor, getDimensionIcon, getRiskBg, getRiskColor } from '@/lib/sentinelStyles'
+import { Loader2 } from 'lucide-react'
+
+/**
+ * Plan steps received so far, while the Worker is still writing
+ */
+export function StreamingPlanPreview({ steps }: { steps: PlanStep[] }) {
+  return (
+    <div className="space-y-3">
+      {steps.map((step) => (
+        <div
+          key={step.step_number}
+          className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl p-4 backdrop-blur-sm animate-in fade-in"
+        >
+          <div className="flex items-start gap-3">
+            <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500/30 to-blue-600/20 border border-blue-500/30 flex items-center justify-center text-sm font-bold font-mono text-blue-300">
+              {step.step_number}
+            </div>
+            <div className="flex-1 space-y-2">
+              <span className={`px-3 py-1.5 rounded-lg text-xs border font-mono font-semibold ${getActionTagColor(step.action_tag)}`}>
+                {step.action_tag}
+              </span>
+              <p className="text-sm text-gray-300 leading-relaxed">{step.action}</p>
+            </div>
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-2 text-xs text-gray-500 font-mono">
+        <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-400" />
+        Generating execution plan...
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Dimension scores received so far, while the Sentinel is still writing
+ */
+export function StreamingScoresPreview({ scores }: { scores: Partial<RiskScores> }) {
+  return (
+    <div className="space-y-3">
+      {RISK_DIMENSIONS.map((dimension) => {
+        const score = scores[dimension]
+        return (
+          <div key={dimension} className="flex items-center gap-3">
+            <span className="text-lg opacity-50 w-6 text-center">{getDimensionIcon(dimension)}</span>
+            <span className="text-xs text-gray-400 w-32 font-mono capitalize flex-1">{getDimensionLabel(dimension)}</span>
+            {typeof score === 'number' ? (
+              <span className={`px-4 py-1.5 rounded-lg font-mono text-sm font-bold min-w-[3rem] text-center ${getRiskBg(score)} ${getRiskColor(score)}`}>
+                {score}
+              </span>
+            ) : (
+              <Loader2 className="w-4 h-4 animate-spin text-gray-600 mx-4" />
+            )}
+          </div>
+        )
+      })}
+      <div className="flex items-center gap-2 text-xs text-gray-500 font-mono">
+        <Loader2 className="w-3.5 h-3.5 animate-spin text-amber-400" />
+        Evaluating risks...
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { findOffendingSteps, getStepAssessment } from '@/lib/stepScoring'
+import { describeRuleMatch, type RuleMatch } from '@/lib/decisionEngine'
+import { getDimensionLabel } from '@/lib/riskDimensions'
+import {
+  getActionTagColor,
+  getDimensionIcon,
+  getRiskBg,
+  getRiskColor,
+  getRiskLevel,
+  getVerdictBg,
+  getVerdictColor,
+} from '@/lib/sentinelStyles'
+import type { ScanFinding } from '@/lib/contentScanner'
+import type { SentinelResult, WorkerPlan } from '@/lib/assessment'
+import { ContentFindings } from '@/components/ContentFindings'
+import { AlertTriangle, ListChecks } from 'lucide-react'
+
+interface WorkerPlanViewProps {
+  plan: WorkerPlan
+  /** Sentinel result whose per-step scores highlight the offending steps */
+  sentinel?: SentinelResult | null
+  /** Content scanner findings on the plan */
+  findings: ScanFinding[]
+  /** Policy rules decidable from the plan alone */
+  planChecks: RuleMatch[]
+}
+
+/**
+ * Worker plan steps, resources, external systems and plan pre-checks
+ */
+export function WorkerPlanView({ plan, sentinel, findings, planChecks }: WorkerPlanViewProps) {
+  // Steps driving each elevated dimension, once the Sentinel has scored them
+  const offendingSteps = sentinel ? findOffendingSteps(sentinel) : {}
+
+  return (
+    <div className="space-y-4">
+      {/* Steps */}
+      <div className="space-y-3">
+        {plan.steps.map((step, idx) => {
+          const stepAssessment = getStepAssessment(sentinel, step.step_number)
+          const drivenDimensions = offendingSteps[step.step_number] || []
+          const stepPeak = drivenDimensions.length > 0
+            ? getRiskLevel(Math.max(...drivenDimensions.map((dimension) => stepAssessment.risk_scores[dimension])))
+            : 0
+          return (
+            <div
+              key={step.step_number}
+              className={`bg-gradient-to-br from-gray-800/60 to-gray-800/30 border rounded-xl p-4 transition-all duration-300 backdrop-blur-sm ${
+                stepPeak >= 3 ? 'border-red-500/50 shadow-lg shadow-red-500/20' :
+                stepPeak === 2 ? 'border-amber-500/50 shadow-lg shadow-amber-500/20' :
+                'border-gray-700/50 hover:border-gray-600/50'
+              }`}
+              style={{ animationDelay: `${idx * 100}ms` }}
+            >
+              <div className="flex items-start gap-3">
+                <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500/30 to-blue-600/20 border border-blue-500/30 flex items-center justify-center text-sm font-bold font-mono text-blue-300 shadow-lg shadow-blue-500/20">
+                  {step.step_number}
+                </div>
+                <div className="flex-1 space-y-2.5">
+                  <div className="flex flex-wrap items-start gap-2">
+                    <span className={`px-3 py-1.5 rounded-lg text-xs border font-mono font-semibold shadow-lg ${getActionTagColor(step.action_tag)}`}>
+                      {step.action_tag}
+                    </span>
+                    {drivenDimensions.map((dimension) => (
+                      <span
+                        key={dimension}
+                        title={stepAssessment.risk_explanations?.[dimension]}
+                        className={`px-2 py-1.5 rounded-lg text-xs border border-gray-600/30 font-mono font-semibold ${getRiskBg(stepAssessment.risk_scores[dimension])} ${getRiskColor(stepAssessment.risk_scores[dimension])}`}
+                      >
+                        {getDimensionIcon(dimension)} {getDimensionLabel(dimension)} {stepAssessment.risk_scores[dimension]}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-sm text-gray-300 leading-relaxed">{step.action}</p>
+                  {step.concerns.length > 0 && (
+                    <div className="mt-3 space-y-2 bg-amber-500/5 border border-amber-500/20 rounded-lg p-3">
+                      {step.concerns.map((concern, idx) => (
+                        <div key={idx} className="flex items-start gap-2 text-xs text-amber-400">
+                          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                          <span>{concern}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Resources & Systems */}
+      <div className="grid grid-cols-1 gap-3">
+        {plan.resources_needed.length > 0 && (
+          <div className="bg-gradient-to-br from-blue-500/10 to-blue-600/5 border border-blue-500/20 rounded-xl p-4">
+            <h4 className="text-sm font-semibold text-blue-400 mb-3 flex items-center gap-2">
+              <div className="w-1.5 h-1.5 rounded-full bg-blue-400"></div>
+              Resources Required
+            </h4>
+            <ul className="space-y-2">
+              {plan.resources_needed.map((resource, idx) => (
+                <li key={idx} className="text-xs text-gray-400 flex items-start gap-2 leading-relaxed">
+                  <span className="text-blue-400 mt-1">▸</span>
+                  <span>{resource}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {plan.external_systems.length > 0 && (
+          <div className="bg-gradient-to-br from-purple-500/10 to-purple-600/5 border border-purple-500/20 rounded-xl p-4">
+            <h4 className="text-sm font-semibold text-purple-400 mb-3 flex items-center gap-2">
+              <div className="w-1.5 h-1.5 rounded-full bg-purple-400"></div>
+              External Systems
+            </h4>
+            <ul className="space-y-2">
+              {plan.external_systems.map((system, idx) => (
+                <li key={idx} className="text-xs text-gray-400 flex items-start gap-2 leading-relaxed">
+                  <span className="text-purple-400 mt-1">▸</span>
+                  <span>{system}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <ContentFindings findings={findings} />
+
+      {/* Plan Pre-checks */}
+      {planChecks.length > 0 && (
+        <div className="bg-gradient-to-br from-gray-800/60 to-gray-800/30 border border-gray-700/50 rounded-xl p-4">
+          <h4 className="text-sm font-semibold text-gray-400 mb-3 flex items-center gap-2">
+            <ListChecks className="w-4 h-4" />
+            Plan Pre-checks
+          </h4>
+          <ul className="space-y-2">
+            {planChecks.map((match) => (
+              <li key={match.id} className="text-xs text-gray-400 flex items-start gap-2 leading-relaxed">
+                <span className={`px-2 py-0.5 rounded font-mono font-semibold whitespace-nowrap ${getVerdictBg(match.outcome)} ${getVerdictColor(match.outcome)}`}>
+                  ≥ {match.outcome.replace(/_/g, ' ')}
+                </span>
+                <span>{describeRuleMatch(match)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -10,12 +10,15 @@
  *
  * // response is NormalizedAgentResponse:
  * // { status: 'success', result: {...}, message?: string }
+ *
+ * // stream: true fills `partial` with the result as it arrives
+ * await callAgent({ message: 'Plan this', stream: true })
  * ```
  */
 
 import { useState, useCallback } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
-import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/lib/aiAgent'
+import { callAIAgent, streamAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/lib/aiAgent'
 
 // =============================================================================
 // Types
@@ -44,6 +47,8 @@ interface AgentCallOptions {
   agentId?: string
   userId?: string
   sessionId?: string
+  /** Stream the response, updating `partial` as it arrives */
+  stream?: boolean
 }
 
 interface UseAgentResult {
@@ -122,9 +127,10 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [error, setError] = useState<ErrorDetails | null>(null)
   const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
+  const [partial, setPartial] = useState<Record<string, any> | null>(null)
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
-    const { message, agentId, userId, sessionId } = callOptions
+    const { message, agentId, userId, sessionId, stream } = callOptions
     const finalAgentId = agentId || options.agentId || process.env.NEXT_PUBLIC_AGENT_ID
 
     if (!finalAgentId) {
@@ -139,13 +145,20 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
     setLoading(true)
     setError(null)
+    setPartial(null)
 
     try {
-      // Use the centralized callAIAgent which handles normalization
-      const result = await callAIAgent(message, finalAgentId, {
-        user_id: userId,
-        session_id: sessionId,
-      })
+      // Use the centralized callAIAgent/streamAIAgent which handle normalization
+      const result = stream
+        ? await streamAIAgent(message, finalAgentId, {
+            user_id: userId,
+            session_id: sessionId,
+            onPartial: setPartial,
+          })
+        : await callAIAgent(message, finalAgentId, {
+            user_id: userId,
+            session_id: sessionId,
+          })
 
       setLastResult(result)
       setResponse(result.response)
@@ -250,6 +263,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
     loading,
     error,
     response,
+    partial,
     lastResult,
     requestFix,
     clearError,
@@ -0,0 +1,161 @@
+/**
+ * Agent Output Validation
+ *
+ * Validates Worker and Sentinel results against response_schemas/*.json
+ * before they reach the decision engine, so a missing or out-of-range score
+ * becomes a malformed-output error instead of a wrong verdict.
+ *
+ * @example
+ * ```ts
+ * const checked = validateSentinelOutput(result.response.result)
+ * if (!checked.valid) {
+ *   showMalformedOutput(checked.issues)
+ * } else {
+ *   calculateVerdict(checked.value.risk_scores)
+ * }
+ * ```
+ */
+
+import workerResponseSchema from '@/response_schemas/worker_agent_response.json'
+import sentinelResponseSchema from '@/response_schemas/sentinel_agent_response.json'
+import { buildRiskSchema, RISK_DIMENSION_REGISTRY, RISK_SCORE_RANGE } from '@/lib/riskDimensions'
+import { hasSchemaErrors, validateSchema, type SchemaIssue, type SchemaNode } from '@/lib/responseSchema'
+import type { RiskScores } from '@/lib/decisionEngine'
+import type { SentinelResult, WorkerPlan } from '@/lib/assessment'
+import type { AgentRole } from '@/lib/agentRegistry'
+
+// Types
+/** `clamp` pulls out-of-range scores into the range with a warning, `reject` fails validation */
+export type ScoreRangeMode = 'clamp' | 'reject'
+
+export interface AgentOutputValidation<T> {
+  valid: boolean
+  /** Validated value, with any clamped scores applied */
+  value?: T
+  issues: SchemaIssue[]
+}
+
+/**
+ * One call to an agent, recorded when the server repairs malformed output
+ */
+export interface AgentAttempt {
+  attempt: number
+  valid: boolean
+  issues: SchemaIssue[]
+  timestamp: string
+}
+
+export const SCORE_RANGE_MODE: ScoreRangeMode =
+  process.env.NEXT_PUBLIC_SENTINEL_SCORE_RANGE_MODE === 'reject' ? 'reject' : 'clamp'
+
+const WORKER_RESULT_SCHEMA = workerResponseSchema.response_schema.result as SchemaNode
+
+/** Sentinel schema with the risk dimensions taken from the registry */
+const SENTINEL_RESULT_SCHEMA: SchemaNode = {
+  ...(sentinelResponseSchema.response_schema.result as Record<string, SchemaNode>),
+  ...buildRiskSchema(),
+  step_assessments: [{ step_number: 'number', ...buildRiskSchema() }],
+}
+
+/** Full response shapes, as sent back to an agent in repair prompts */
+const AGENT_RESPONSE_SCHEMAS: Record<AgentRole, SchemaNode> = {
+  worker: { ...(workerResponseSchema.response_schema as Record<string, SchemaNode>), result: WORKER_RESULT_SCHEMA },
+  sentinel: { ...(sentinelResponseSchema.response_schema as Record<string, SchemaNode>), result: SENTINEL_RESULT_SCHEMA },
+}
+
+const SENTINEL_OPTIONAL_PATHS = ['step_assessments', 'step_assessments[].risk_explanations', 'step_assessments[].risk_explanations.*']
+
+/**
+ * Validate the Worker's result, which wraps the plan
+ */
+export function validateWorkerOutput(result: unknown): AgentOutputValidation<WorkerPlan> {
+  const issues = validateSchema(result, WORKER_RESULT_SCHEMA)
+  if (hasSchemaErrors(issues)) {
+    return { valid: false, issues }
+  }
+
+  return { valid: true, value: (result as { plan: WorkerPlan }).plan, issues }
+}
+
+function checkScoreRange(scores: RiskScores, path: string, mode: ScoreRangeMode): { scores: RiskScores; issues: SchemaIssue[] } {
+  const { min, max } = RISK_SCORE_RANGE
+  const checked: RiskScores = { ...scores }
+  const issues: SchemaIssue[] = []
+
+  for (const { id } of RISK_DIMENSION_REGISTRY.dimensions) {
+    const score = scores[id]
+    if (typeof score !== 'number' || (score >= min && score <= max)) continue
+
+    if (mode === 'reject') {
+      issues.push({ path: `${path}.${id}`, message: `Score ${score} is outside ${min}-${max}`, severity: 'error' })
+    } else {
+      checked[id] = Math.max(min, Math.min(max, score))
+      issues.push({
+        path: `${path}.${id}`,
+        message: `Score ${score} is outside ${min}-${max}, clamped to ${checked[id]}`,
+        severity: 'warning',
+      })
+    }
+  }
+
+  return { scores: checked, issues }
+}
+
+/**
+ * Validate the Sentinel's result and enforce the score range
+ */
+export function validateSentinelOutput(result: unknown, mode: ScoreRangeMode = SCORE_RANGE_MODE): AgentOutputValidation<SentinelResult> {
+  const issues = validateSchema(result, SENTINEL_RESULT_SCHEMA, { optional: SENTINEL_OPTIONAL_PATHS })
+  if (hasSchemaErrors(issues)) {
+    return { valid: false, issues }
+  }
+
+  const sentinel = result as SentinelResult
+  const planLevel = checkScoreRange(sentinel.risk_scores, 'risk_scores', mode)
+  const steps = (sentinel.step_assessments || []).map((step, idx) => {
+    const checked = checkScoreRange(step.risk_scores, `step_assessments[${idx}].risk_scores`, mode)
+    return { step: { ...step, risk_scores: checked.scores }, issues: checked.issues }
+  })
+
+  const allIssues = [...issues, ...planLevel.issues, ...steps.flatMap((entry) => entry.issues)]
+  if (hasSchemaErrors(allIssues)) {
+    return { valid: false, issues: allIssues }
+  }
+
+  return {
+    valid: true,
+    value: {
+      ...sentinel,
+      risk_scores: planLevel.scores,
+      step_assessments: sentinel.step_assessments ? steps.map((entry) => entry.step) : undefined,
+    },
+    issues: allIssues,
+  }
+}
+
+/**
+ * Full response schema an agent in the given role must follow
+ */
+export function getAgentResponseSchema(role: AgentRole): SchemaNode {
+  return AGENT_RESPONSE_SCHEMAS[role]
+}
+
+/**
+ * Validate a result for the given agent role
+ */
+export function validateAgentOutput(role: AgentRole, result: unknown): AgentOutputValidation<WorkerPlan | SentinelResult> {
+  return role === 'worker' ? validateWorkerOutput(result) : validateSentinelOutput(result)
+}
+
+/**
+ * Follow-up asking an agent to resend its answer in the expected shape
+ */
+export function buildRepairMessage(role: AgentRole, issues: SchemaIssue[]): string {
+  return [
+    'Your previous response could not be used because it does not match the required format:',
+    ...issues.filter((issue) => issue.severity === 'error').map((issue) => `- ${issue.path}: ${issue.message}`),
+    '',
+    'Return the same answer again as valid JSON only, with no prose or markdown, matching this schema:',
+    JSON.stringify(AGENT_RESPONSE_SCHEMAS[role], null, 2),
+  ].join('\n')
+}
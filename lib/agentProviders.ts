@@ -0,0 +1,356 @@
+/**
+ * Agent Providers
+ *
+ * LLM backends behind the agent service: Lyzr, any OpenAI-compatible
+ * chat-completions API, and a mock that replays fixtures offline. Providers
+ * return raw reply text; parsing and normalization stay in the agent service.
+ *
+ * Selection, per agent ID:
+ * - `AGENT_PROVIDER_OVERRIDES=69858e5be5d25ce3f598caf6=mock,<agent_id>=openai`
+ * - `AGENT_PROVIDER=lyzr | openai | mock` (default: lyzr)
+ *
+ * Server-only: reads API keys and fixture files.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getAgentResponseSchema } from '@/lib/agentOutput'
+import { getAgentById, getAgentRole } from '@/lib/agentRegistry'
+
+// Types
+export type ProviderName = 'lyzr' | 'openai' | 'mock'
+
+export const PROVIDER_NAMES: ProviderName[] = ['lyzr', 'openai', 'mock']
+
+/** Agent request with user and session IDs already assigned */
+export interface ProviderRequest {
+  message: string
+  agent_id: string
+  user_id: string
+  session_id: string
+  assets?: string[]
+}
+
+export interface ProviderReply {
+  ok: boolean
+  status: number
+  /** Agent output text, or the error body when not ok */
+  text: string
+}
+
+export interface AgentProvider {
+  name: ProviderName
+  /** Missing configuration, reported as a 500 before any call is made */
+  configError(): string | null
+  complete(request: ProviderRequest): Promise<ProviderReply>
+  /** `onText` receives the accumulated output text after every chunk */
+  stream(request: ProviderRequest, onText: (text: string) => void): Promise<ProviderReply>
+}
+
+/**
+ * Read a server-sent event stream, passing each `data:` payload to `onData`
+ */
+async function readEventStream(body: ReadableStream<Uint8Array>, onData: (data: string) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    for (const line of lines) {
+      if (line.startsWith('data:')) onData(line.slice(5).trim())
+    }
+  }
+}
+
+const replyFrom = async (response: Response): Promise<ProviderReply> => ({
+  ok: response.ok,
+  status: response.status,
+  text: await response.text(),
+})
+
+// =============================================================================
+// Lyzr
+// =============================================================================
+
+const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+const LYZR_STREAM_URL = process.env.LYZR_STREAM_URL || 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
+const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+
+const postToLyzr = (url: string, request: ProviderRequest) => {
+  const payload: Record<string, any> = {
+    message: request.message,
+    agent_id: request.agent_id,
+    user_id: request.user_id,
+    session_id: request.session_id,
+  }
+  if (request.assets && request.assets.length > 0) {
+    payload.assets = request.assets
+  }
+
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': LYZR_API_KEY,
+    },
+    body: JSON.stringify(payload),
+  })
+}
+
+/** Text carried by one Lyzr stream event */
+function lyzrEventText(data: string): string {
+  if (data === '[DONE]') return ''
+  try {
+    const parsed = JSON.parse(data)
+    if (typeof parsed === 'string') return parsed
+    return parsed?.content ?? parsed?.delta ?? parsed?.text ?? ''
+  } catch {
+    return data
+  }
+}
+
+const lyzrProvider: AgentProvider = {
+  name: 'lyzr',
+
+  configError: () => (LYZR_API_KEY ? null : 'LYZR_API_KEY not configured'),
+
+  async complete(request) {
+    return replyFrom(await postToLyzr(LYZR_API_URL, request))
+  },
+
+  async stream(request, onText) {
+    const response = await postToLyzr(LYZR_STREAM_URL, request)
+    if (!response.ok || !response.body) return replyFrom(response)
+
+    let text = ''
+
+    if ((response.headers.get('content-type') || '').includes('text/event-stream')) {
+      await readEventStream(response.body, (data) => {
+        text += lyzrEventText(data)
+        onText(text)
+      })
+    } else {
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        text += decoder.decode(value, { stream: true })
+        onText(text)
+      }
+    }
+
+    return { ok: true, status: response.status, text }
+  },
+}
+
+// =============================================================================
+// OpenAI-compatible
+// =============================================================================
+
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '')
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || ''
+/** Overrides every agent's registry model when set */
+const OPENAI_MODEL = process.env.OPENAI_MODEL
+
+/** Sessions kept in memory so repair follow-ups see the earlier turns */
+const MAX_OPENAI_SESSIONS = 100
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+const openAISessions = new Map<string, ChatMessage[]>()
+
+function systemPrompt(agentId: string): string {
+  const agent = getAgentById(agentId)
+  const role = getAgentRole(agentId)
+  if (!role) return 'Respond with valid JSON only.'
+
+  return [
+    `You are the ${agent.name}. ${agent.description || ''}`.trim(),
+    'Respond with valid JSON only, with no prose or markdown, matching this schema:',
+    JSON.stringify(getAgentResponseSchema(role), null, 2),
+  ].join('\n')
+}
+
+function sessionMessages(request: ProviderRequest): ChatMessage[] {
+  const history = openAISessions.get(request.session_id) || [{ role: 'system', content: systemPrompt(request.agent_id) }]
+  return [...history, { role: 'user', content: request.message }]
+}
+
+function rememberSession(sessionId: string, messages: ChatMessage[]) {
+  openAISessions.delete(sessionId)
+  openAISessions.set(sessionId, messages)
+  if (openAISessions.size > MAX_OPENAI_SESSIONS) {
+    openAISessions.delete(openAISessions.keys().next().value)
+  }
+}
+
+const postToOpenAI = (agentId: string, messages: ChatMessage[], stream: boolean) => {
+  const agent = getAgentById(agentId)
+
+  return fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${OPENAI_API_KEY}`,
+    },
+    body: JSON.stringify({
+      model: OPENAI_MODEL || agent?.model || 'gpt-4.1',
+      temperature: agent?.temperature,
+      messages,
+      stream,
+    }),
+  })
+}
+
+const openAIProvider: AgentProvider = {
+  name: 'openai',
+
+  configError: () => (OPENAI_API_KEY ? null : 'OPENAI_API_KEY not configured'),
+
+  async complete(request) {
+    const messages = sessionMessages(request)
+    const response = await postToOpenAI(request.agent_id, messages, false)
+    if (!response.ok) return replyFrom(response)
+
+    const data = await response.json()
+    const text: string = data?.choices?.[0]?.message?.content ?? ''
+    rememberSession(request.session_id, [...messages, { role: 'assistant', content: text }])
+
+    return { ok: true, status: response.status, text }
+  },
+
+  async stream(request, onText) {
+    const messages = sessionMessages(request)
+    const response = await postToOpenAI(request.agent_id, messages, true)
+    if (!response.ok || !response.body) return replyFrom(response)
+
+    let text = ''
+    await readEventStream(response.body, (data) => {
+      if (data === '[DONE]') return
+      try {
+        text += JSON.parse(data)?.choices?.[0]?.delta?.content ?? ''
+        onText(text)
+      } catch {}
+    })
+    rememberSession(request.session_id, [...messages, { role: 'assistant', content: text }])
+
+    return { ok: true, status: response.status, text }
+  },
+}
+
+// =============================================================================
+// Mock (fixture replay)
+// =============================================================================
+
+const MOCK_FIXTURES_DIR = process.env.MOCK_AGENT_FIXTURES_DIR || path.join(process.cwd(), 'response_schemas', 'test_results')
+
+/** Characters per chunk when replaying a fixture as a stream */
+const MOCK_STREAM_CHUNK = 40
+
+interface AgentFixture {
+  agent_id: string
+  test_message?: string
+  actual_response?: unknown
+  raw_response?: string
+}
+
+async function loadFixtures(): Promise<AgentFixture[]> {
+  let files: string[]
+  try {
+    files = (await fs.readdir(MOCK_FIXTURES_DIR)).filter((file) => file.endsWith('.json')).sort()
+  } catch {
+    return []
+  }
+
+  const fixtures = await Promise.all(
+    files.map(async (file) => JSON.parse(await fs.readFile(path.join(MOCK_FIXTURES_DIR, file), 'utf-8')) as AgentFixture)
+  )
+  return fixtures.filter((fixture) => fixture.agent_id)
+}
+
+/**
+ * Fixture recorded for this exact message, else the agent's first fixture
+ */
+async function findFixture(request: ProviderRequest): Promise<AgentFixture | undefined> {
+  const fixtures = (await loadFixtures()).filter((fixture) => fixture.agent_id === request.agent_id)
+  return fixtures.find((fixture) => fixture.test_message === request.message) || fixtures[0]
+}
+
+const mockProvider: AgentProvider = {
+  name: 'mock',
+
+  configError: () => null,
+
+  async complete(request) {
+    const fixture = await findFixture(request)
+    if (!fixture) {
+      return {
+        ok: false,
+        status: 404,
+        text: JSON.stringify({ error: `No mock fixture for agent ${request.agent_id} in ${MOCK_FIXTURES_DIR}` }),
+      }
+    }
+
+    return {
+      ok: true,
+      status: 200,
+      text: fixture.actual_response !== undefined ? JSON.stringify(fixture.actual_response) : fixture.raw_response || '',
+    }
+  },
+
+  async stream(request, onText) {
+    const reply = await mockProvider.complete(request)
+    if (!reply.ok) return reply
+
+    for (let end = MOCK_STREAM_CHUNK; end < reply.text.length + MOCK_STREAM_CHUNK; end += MOCK_STREAM_CHUNK) {
+      onText(reply.text.slice(0, end))
+    }
+    return reply
+  },
+}
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+const PROVIDERS: Record<ProviderName, AgentProvider> = {
+  lyzr: lyzrProvider,
+  openai: openAIProvider,
+  mock: mockProvider,
+}
+
+const isProviderName = (value: string | undefined): value is ProviderName =>
+  PROVIDER_NAMES.includes(value as ProviderName)
+
+/** `agent_id=provider` pairs from AGENT_PROVIDER_OVERRIDES */
+function providerOverrides(): Record<string, ProviderName> {
+  const overrides: Record<string, ProviderName> = {}
+  for (const entry of (process.env.AGENT_PROVIDER_OVERRIDES || '').split(',')) {
+    const [agentId, name] = entry.split('=').map((part) => part.trim())
+    if (agentId && isProviderName(name)) overrides[agentId] = name
+  }
+  return overrides
+}
+
+/**
+ * Provider for an agent: explicit choice, then per-agent override, then default
+ */
+export function resolveProvider(agentId: string, name?: ProviderName): AgentProvider {
+  if (isProviderName(name)) return PROVIDERS[name]
+
+  const override = providerOverrides()[agentId]
+  if (override) return PROVIDERS[override]
+
+  const fallback = process.env.AGENT_PROVIDER
+  return PROVIDERS[isProviderName(fallback) ? fallback : 'lyzr']
+}
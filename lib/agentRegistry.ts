@@ -0,0 +1,98 @@
+/**
+ * Agent Registry
+ *
+ * Agent definitions loaded from workflow_state.json (model, temperature,
+ * description) and workflow.json (agent nodes). Pages and routes resolve
+ * agents by role instead of hard-coding IDs.
+ *
+ * @example
+ * ```ts
+ * import { resolveAgentId } from '@/lib/agentRegistry'
+ *
+ * const result = await callAIAgent(task, resolveAgentId('worker'))
+ * ```
+ */
+
+import workflow from '@/workflow.json'
+import workflowState from '@/workflow_state.json'
+
+// Types
+/** Roles the assessment pipeline runs */
+export type AgentRole = 'worker' | 'sentinel'
+
+export const AGENT_ROLES: AgentRole[] = ['worker', 'sentinel']
+
+export interface AgentDefinition {
+  id: string
+  /** Role name, from the workflow key without its `_agent` suffix */
+  role: string
+  name: string
+  description?: string
+  model?: string
+  temperature?: number
+  /** Workflow node the agent runs as, when it appears in workflow.json */
+  node_id?: string
+  /** Expected response shape, relative to the project root */
+  response_schema: string
+}
+
+interface WorkflowStateAgent {
+  agent_id: string
+  name: string
+  description?: string
+  model?: string
+  temperature?: number
+}
+
+function loadAgents(): AgentDefinition[] {
+  const stateAgents = workflowState.agents as Record<string, WorkflowStateAgent>
+
+  return Object.entries(stateAgents).map(([key, agent]) => {
+    const node = workflow.nodes.find((candidate) => candidate.agent_id === agent.agent_id)
+    return {
+      id: agent.agent_id,
+      role: key.replace(/_agent$/, ''),
+      name: agent.name,
+      description: agent.description,
+      model: agent.model,
+      temperature: agent.temperature,
+      node_id: node?.id,
+      response_schema: `response_schemas/${key}_response.json`,
+    }
+  })
+}
+
+export const AGENTS: AgentDefinition[] = loadAgents()
+
+/**
+ * Agent definition for a role
+ */
+export function getAgentByRole(role: string): AgentDefinition | undefined {
+  return AGENTS.find((agent) => agent.role === role)
+}
+
+/**
+ * Agent definition by agent ID
+ */
+export function getAgentById(id: string): AgentDefinition | undefined {
+  return AGENTS.find((agent) => agent.id === id)
+}
+
+/**
+ * Pipeline role of an agent ID, if it is one the pipeline runs
+ */
+export function getAgentRole(id: string): AgentRole | undefined {
+  const role = getAgentById(id)?.role
+  return AGENT_ROLES.find((candidate) => candidate === role)
+}
+
+/**
+ * Agent ID for a role, failing fast when the workflow files do not define it
+ */
+export function resolveAgentId(role: AgentRole): string {
+  const agent = getAgentByRole(role)
+  if (!agent) {
+    throw new Error(`No ${role} agent defined in workflow_state.json`)
+  }
+  return agent.id
+}
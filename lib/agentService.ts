@@ -0,0 +1,277 @@
+/**
+ * Agent Service
+ *
+ * Server-side utility for calling agents through the configured provider
+ * (see lib/agentProviders.ts). Shared by /api/agent and any route that needs
+ * to run agents without a browser round-trip. Agents with a response schema on
+ * file get a bounded repair loop for malformed output.
+ * Do not import from client components: providers read API keys.
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { parsePartialJson } from '@/lib/partialJson'
+import { generateUUID } from '@/lib/utils'
+import type { AIAgentResponse, NormalizedAgentResponse } from '@/lib/aiAgent'
+import { resolveProvider, type AgentProvider, type ProviderName, type ProviderReply, type ProviderRequest } from '@/lib/agentProviders'
+import { buildRepairMessage, validateAgentOutput, type AgentAttempt } from '@/lib/agentOutput'
+import { getAgentRole, type AgentRole } from '@/lib/agentRegistry'
+
+const configuredRepairs = Number(process.env.SENTINEL_AGENT_MAX_REPAIRS || NaN)
+
+/** Follow-up calls allowed after the first malformed response; 0 disables repair */
+export const MAX_REPAIR_ATTEMPTS = Number.isFinite(configuredRepairs) ? Math.max(0, Math.floor(configuredRepairs)) : 2
+
+// Types
+export interface AgentRequest {
+  message: string
+  agent_id: string
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  /** Overrides the env-configured provider for this call */
+  provider?: ProviderName
+}
+
+export interface RepairOptions {
+  /** Schema to enforce; defaults to the agent's role in the registry */
+  role?: AgentRole
+  maxRepairs?: number
+  /** Streams the first attempt, receiving its result as it parses */
+  onPartial?: (result: Record<string, any>) => void
+}
+
+export interface AgentServiceResult {
+  /** HTTP status to forward to the caller */
+  status: number
+  body: AIAgentResponse
+}
+
+export function normalizeResponse(parsed: any): NormalizedAgentResponse {
+  if (!parsed) {
+    return {
+      status: 'error',
+      result: {},
+      message: 'Empty response from agent',
+    }
+  }
+
+  if (typeof parsed === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed },
+      message: parsed,
+    }
+  }
+
+  if (typeof parsed !== 'object') {
+    return {
+      status: 'success',
+      result: { value: parsed },
+      message: String(parsed),
+    }
+  }
+
+  if ('status' in parsed && 'result' in parsed) {
+    return {
+      status: parsed.status === 'error' ? 'error' : 'success',
+      result: parsed.result || {},
+      message: parsed.message,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('status' in parsed) {
+    const { status, message, metadata, ...rest } = parsed
+    return {
+      status: status === 'error' ? 'error' : 'success',
+      result: Object.keys(rest).length > 0 ? rest : {},
+      message,
+      metadata,
+    }
+  }
+
+  if ('result' in parsed) {
+    return {
+      status: 'success',
+      result: parsed.result,
+      message: parsed.message,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('message' in parsed && typeof parsed.message === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed.message },
+      message: parsed.message,
+    }
+  }
+
+  if ('response' in parsed) {
+    return normalizeResponse(parsed.response)
+  }
+
+  return {
+    status: 'success',
+    result: parsed,
+    message: undefined,
+    metadata: undefined,
+  }
+}
+
+const errorResult = (status: number, message: string, error = message, raw_response?: string): AgentServiceResult => ({
+  status,
+  body: {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message,
+    },
+    error,
+    raw_response,
+  },
+})
+
+/**
+ * Validate the request and pick its provider, or return the error result
+ */
+function prepareRequest(request: AgentRequest): { provider?: AgentProvider; payload?: ProviderRequest; error?: AgentServiceResult } {
+  const { message, agent_id, user_id, session_id, assets } = request
+
+  if (!message || !agent_id) {
+    return { error: errorResult(400, 'message and agent_id are required') }
+  }
+
+  const provider = resolveProvider(agent_id, request.provider)
+  const configError = provider.configError()
+  if (configError) {
+    return { error: errorResult(500, configError, `${configError} on server`) }
+  }
+
+  return {
+    provider,
+    payload: {
+      message,
+      agent_id,
+      user_id: user_id || `user-${generateUUID()}`,
+      session_id: session_id || `${agent_id}-${generateUUID().substring(0, 12)}`,
+      assets,
+    },
+  }
+}
+
+function toServiceResult(reply: ProviderReply, payload: ProviderRequest): AgentServiceResult {
+  const rawText = reply.text
+
+  if (reply.ok) {
+    const parsed = parseLLMJson(rawText)
+
+    if (parsed?.success === false && parsed?.error) {
+      return errorResult(200, parsed.error, parsed.error, rawText)
+    }
+
+    const normalized = normalizeResponse(parsed)
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        response: normalized,
+        agent_id: payload.agent_id,
+        user_id: payload.user_id,
+        session_id: payload.session_id,
+        timestamp: new Date().toISOString(),
+        raw_response: rawText,
+      },
+    }
+  }
+
+  let errorMsg = `API returned status ${reply.status}`
+  try {
+    const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
+    errorMsg = errorData?.error || errorData?.message || errorMsg
+  } catch {}
+
+  return errorResult(reply.status, errorMsg, errorMsg, rawText)
+}
+
+/**
+ * Call an agent and normalize its response
+ */
+export async function invokeAgent(request: AgentRequest): Promise<AgentServiceResult> {
+  const { provider, payload, error } = prepareRequest(request)
+  if (error) return error
+
+  return toServiceResult(await provider.complete(payload), payload)
+}
+
+/**
+ * Call an agent with streaming
+ *
+ * `onPartial` receives the normalized result each time more of it parses.
+ * Resolves with the same result shape as `invokeAgent` once the stream ends.
+ */
+export async function streamAgent(
+  request: AgentRequest,
+  onPartial: (result: Record<string, any>) => void
+): Promise<AgentServiceResult> {
+  const { provider, payload, error } = prepareRequest(request)
+  if (error) return error
+
+  let lastPartial = ''
+  const reply = await provider.stream(payload, (text) => {
+    const partial = parsePartialJson(text)
+    if (!partial) return
+
+    const normalized = normalizeResponse(partial)
+    const serialized = JSON.stringify(normalized.result)
+    if (normalized.status === 'success' && serialized !== lastPartial && serialized !== '{}') {
+      lastPartial = serialized
+      onPartial(normalized.result)
+    }
+  })
+
+  return toServiceResult(reply, payload)
+}
+
+/**
+ * Call an agent, re-asking it in the same session while its output fails schema validation
+ *
+ * Every attempt is recorded in `response.metadata.attempts`. When the repairs
+ * run out, the last response is returned as-is for the caller to reject.
+ */
+export async function invokeAgentWithRepair(request: AgentRequest, options: RepairOptions = {}): Promise<AgentServiceResult> {
+  const role = options.role || getAgentRole(request.agent_id)
+  // A non-numeric limit would never end the loop
+  const maxRepairs = Number.isFinite(options.maxRepairs) ? Math.max(0, options.maxRepairs) : MAX_REPAIR_ATTEMPTS
+  const attempts: AgentAttempt[] = []
+
+  let result = options.onPartial ? await streamAgent(request, options.onPartial) : await invokeAgent(request)
+
+  while (role && result.body.success && result.body.response.status === 'success') {
+    const validation = validateAgentOutput(role, result.body.response.result)
+    attempts.push({
+      attempt: attempts.length + 1,
+      valid: validation.valid,
+      issues: validation.issues,
+      timestamp: new Date().toISOString(),
+    })
+
+    if (validation.valid || attempts.length > maxRepairs) break
+
+    result = await invokeAgent({
+      message: buildRepairMessage(role, validation.issues),
+      agent_id: request.agent_id,
+      user_id: result.body.user_id,
+      session_id: result.body.session_id,
+      provider: request.provider,
+    })
+  }
+
+  if (attempts.length > 0) {
+    result.body.response.metadata = { ...result.body.response.metadata, attempts }
+  }
+
+  return result
+}
@@ -18,6 +18,7 @@
  */
 
 import { useState } from 'react'
+import type { AgentAttempt } from '@/lib/agentOutput'
 
 // Types
 export interface NormalizedAgentResponse {
@@ -27,6 +28,8 @@ export interface NormalizedAgentResponse {
   metadata?: {
     agent_name?: string
     timestamp?: string
+    /** Schema validation attempts, when the server repaired malformed output */
+    attempts?: AgentAttempt[]
     [key: string]: any
   }
 }
@@ -43,6 +46,17 @@ export interface AIAgentResponse {
   details?: string
 }
 
+/**
+ * One line of the NDJSON stream from /api/agent with `stream: true`
+ */
+export interface AgentStreamEvent {
+  type: 'partial' | 'done'
+  /** Result parsed so far, on `partial` events */
+  result?: Record<string, any>
+  /** Final response, on the `done` event */
+  response?: AIAgentResponse
+}
+
 export interface UploadedFile {
   asset_id: string
   file_name: string
@@ -100,6 +114,66 @@ export async function callAIAgent(
   }
 }
 
+/**
+ * Call the AI Agent with streaming, reporting the result as it arrives
+ *
+ * Resolves with the same response as `callAIAgent` once the agent finishes.
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options: { user_id?: string; session_id?: string; assets?: string[]; onPartial?: (result: Record<string, any>) => void } = {}
+): Promise<AIAgentResponse> {
+  const { onPartial, ...rest } = options
+
+  try {
+    const response = await fetch('/api/agent', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ message, agent_id, ...rest, stream: true }),
+    })
+
+    // Errors before the stream starts come back as plain JSON
+    if (!response.body || !(response.headers.get('content-type') || '').includes('ndjson')) {
+      return await response.json()
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        if (!line.trim()) continue
+        const event: AgentStreamEvent = JSON.parse(line)
+        if (event.type === 'partial' && event.result) onPartial?.(event.result)
+        if (event.type === 'done' && event.response) return event.response
+      }
+    }
+
+    throw new Error('Stream ended without a response')
+  } catch (error) {
+    return {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message: error instanceof Error ? error.message : 'Network error',
+      },
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
 /**
  * Upload files via server-side API route
  */
@@ -0,0 +1,67 @@
+/**
+ * Human Approval Types
+ *
+ * Shapes for the approval queue that BLOCK and MODIFY verdicts enter
+ * before a reviewer signs them off.
+ */
+
+import { VERDICT_TYPES, type HumanDecision, type HumanDecisionStatus, type Verdict, type VerdictType } from '@/lib/decisionEngine'
+
+export type ApprovalAction = 'APPROVE' | 'REJECT' | 'OVERRIDE'
+
+/** Verdicts that cannot proceed without a human decision */
+export const APPROVAL_REQUIRED_VERDICTS: VerdictType[] = ['BLOCK', 'MODIFY']
+
+export const APPROVAL_ACTION_STATUS: Record<ApprovalAction, HumanDecisionStatus> = {
+  APPROVE: 'APPROVED',
+  REJECT: 'REJECTED',
+  OVERRIDE: 'OVERRIDDEN',
+}
+
+export const APPROVAL_ACTIONS = Object.keys(APPROVAL_ACTION_STATUS) as ApprovalAction[]
+
+export interface ApprovalDecisionInput {
+  action: ApprovalAction
+  reviewer: string
+  justification: string
+  /** Required for OVERRIDE */
+  override_verdict?: VerdictType
+}
+
+export interface ApprovalRequest {
+  id: string
+  assessment_id: string
+  task: string
+  verdict: Verdict
+  created_at: string
+  decision: HumanDecision
+}
+
+/**
+ * Whether a verdict has to go through the approval queue
+ */
+export function requiresApproval(verdict: Verdict): boolean {
+  return APPROVAL_REQUIRED_VERDICTS.includes(verdict.type)
+}
+
+/**
+ * Validate a reviewer decision, returning an error message if invalid
+ */
+export function validateApprovalDecision(input: Partial<ApprovalDecisionInput>): string | null {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return 'Request body must be a JSON object'
+  }
+  if (!APPROVAL_ACTIONS.includes(input.action)) {
+    return `action must be one of ${APPROVAL_ACTIONS.join(', ')}`
+  }
+  if (typeof input.reviewer !== 'string' || !input.reviewer.trim()) {
+    return 'reviewer is required'
+  }
+  if (typeof input.justification !== 'string' || !input.justification.trim()) {
+    return 'A written justification is required'
+  }
+  if (input.action === 'OVERRIDE' && !VERDICT_TYPES.includes(input.override_verdict)) {
+    return 'A valid override_verdict is required when overriding'
+  }
+  return null
+}
@@ -0,0 +1,74 @@
+'use client'
+
+/**
+ * Approval Queue Client Utility
+ *
+ * Client-side wrapper for reviewing BLOCK and MODIFY verdicts via API routes.
+ */
+
+import type { HumanDecisionStatus } from '@/lib/decisionEngine'
+import type { ApprovalDecisionInput, ApprovalRequest } from '@/lib/approval'
+
+// Types
+export interface ListApprovalsResponse {
+  success: boolean
+  requests?: ApprovalRequest[]
+  total?: number
+  error?: string
+  timestamp?: string
+}
+
+export interface ApprovalResponse {
+  success: boolean
+  request?: ApprovalRequest
+  error?: string
+  timestamp?: string
+}
+
+/**
+ * List approval requests, optionally by status or assessment
+ */
+export async function fetchApprovalRequests(
+  filters: { status?: HumanDecisionStatus; assessment_id?: string } = {}
+): Promise<ListApprovalsResponse> {
+  const params = new URLSearchParams()
+  if (filters.status) params.set('status', filters.status)
+  if (filters.assessment_id) params.set('assessment_id', filters.assessment_id)
+
+  try {
+    const response = await fetch(`/api/approvals?${params.toString()}`, {
+      method: 'GET',
+    })
+
+    const data = await response.json()
+    return data
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+/**
+ * Record a reviewer decision on a pending request
+ */
+export async function submitApprovalDecision(id: string, decision: ApprovalDecisionInput): Promise<ApprovalResponse> {
+  try {
+    const response = await fetch(`/api/approvals/${encodeURIComponent(id)}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(decision),
+    })
+
+    const data = await response.json()
+    return data
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
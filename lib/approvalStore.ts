@@ -0,0 +1,141 @@
+/**
+ * Approval Store
+ *
+ * Server-side approval queue. Requests and reviewer decisions are appended as
+ * separate events, so every decision keeps its reviewer and timestamp.
+ */
+
+import { appendJsonLine, readJsonLines } from '@/lib/fileStore'
+import { generateUUID } from '@/lib/utils'
+import type { HumanDecision, HumanDecisionStatus } from '@/lib/decisionEngine'
+import type { AssessmentRecord } from '@/lib/assessment'
+import {
+  APPROVAL_ACTION_STATUS,
+  requiresApproval,
+  type ApprovalDecisionInput,
+  type ApprovalRequest,
+} from '@/lib/approval'
+
+const APPROVALS_FILE = 'approvals.jsonl'
+
+// Types
+type ApprovalEvent =
+  | { event: 'request'; request: Omit<ApprovalRequest, 'decision'> }
+  | { event: 'decision'; request_id: string; decision: HumanDecision }
+
+export interface ApprovalFilters {
+  status?: HumanDecisionStatus
+  assessment_id?: string
+}
+
+export interface DecisionOutcome {
+  success: boolean
+  request?: ApprovalRequest
+  error?: string
+  /** HTTP status for failed decisions */
+  status?: number
+}
+
+/**
+ * Replay the event log into current request state, oldest first
+ */
+async function loadRequests(): Promise<ApprovalRequest[]> {
+  const events = await readJsonLines<ApprovalEvent>(APPROVALS_FILE)
+  const requests = new Map<string, ApprovalRequest>()
+
+  for (const entry of events) {
+    if (entry.event === 'request') {
+      requests.set(entry.request.id, { ...entry.request, decision: { status: 'PENDING' } })
+    } else {
+      const request = requests.get(entry.request_id)
+      if (request) request.decision = entry.decision
+    }
+  }
+
+  return Array.from(requests.values())
+}
+
+/**
+ * Queue an assessment for human approval if its verdict requires one
+ */
+export async function createApprovalRequestIfRequired(record: AssessmentRecord): Promise<ApprovalRequest | null> {
+  if (!requiresApproval(record.verdict)) return null
+
+  const request: Omit<ApprovalRequest, 'decision'> = {
+    id: generateUUID(),
+    assessment_id: record.id,
+    task: record.task,
+    verdict: record.verdict,
+    created_at: new Date().toISOString(),
+  }
+
+  await appendJsonLine<ApprovalEvent>(APPROVALS_FILE, { event: 'request', request })
+  return { ...request, decision: { status: 'PENDING' } }
+}
+
+/**
+ * List approval requests, newest first
+ */
+export async function listApprovalRequests(filters: ApprovalFilters = {}): Promise<ApprovalRequest[]> {
+  const requests = await loadRequests()
+
+  return requests
+    .filter((request) => !filters.status || request.decision.status === filters.status)
+    .filter((request) => !filters.assessment_id || request.assessment_id === filters.assessment_id)
+    .reverse()
+}
+
+/**
+ * Get a single approval request by ID
+ */
+export async function getApprovalRequest(id: string): Promise<ApprovalRequest | null> {
+  const requests = await loadRequests()
+  return requests.find((request) => request.id === id) || null
+}
+
+/**
+ * Human decisions keyed by assessment ID
+ */
+export async function getHumanDecisions(): Promise<Map<string, HumanDecision>> {
+  const requests = await loadRequests()
+  return new Map(requests.map((request) => [request.assessment_id, request.decision]))
+}
+
+/** Decisions run one at a time so a request can only leave PENDING once */
+let deciding: Promise<unknown> = Promise.resolve()
+
+async function recordDecision(id: string, input: ApprovalDecisionInput): Promise<DecisionOutcome> {
+  const request = await getApprovalRequest(id)
+
+  if (!request) {
+    return { success: false, error: 'Approval request not found', status: 404 }
+  }
+
+  if (request.decision.status !== 'PENDING') {
+    return {
+      success: false,
+      error: `Approval request already ${request.decision.status.toLowerCase()}`,
+      status: 409,
+    }
+  }
+
+  const decision: HumanDecision = {
+    status: APPROVAL_ACTION_STATUS[input.action],
+    reviewer: input.reviewer.trim(),
+    justification: input.justification.trim(),
+    decided_at: new Date().toISOString(),
+    override_verdict: input.action === 'OVERRIDE' ? input.override_verdict : undefined,
+  }
+
+  await appendJsonLine<ApprovalEvent>(APPROVALS_FILE, { event: 'decision', request_id: id, decision })
+  return { success: true, request: { ...request, decision } }
+}
+
+/**
+ * Record a reviewer decision on a pending request
+ */
+export function decideApprovalRequest(id: string, input: ApprovalDecisionInput): Promise<DecisionOutcome> {
+  const decide = deciding.then(() => recordDecision(id, input))
+  deciding = decide.catch(() => undefined)
+  return decide
+}
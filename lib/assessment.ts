@@ -0,0 +1,181 @@
+/**
+ * Sentinel Assessment Types
+ *
+ * Shapes shared by the browser flow and server routes for the
+ * Input → Worker Agent → Sentinel Agent → Decision Engine pipeline.
+ */
+
+import type { RiskDimension, RiskScores, Verdict } from '@/lib/decisionEngine'
+import type { EnsembleSummary } from '@/lib/ensemble'
+import type { ScanFinding } from '@/lib/contentScanner'
+import type { ChainLink } from '@/lib/auditChain'
+import { buildRiskSchema, getDimensionLabel, RISK_DIMENSION_REGISTRY, RISK_SCORE_RANGE } from '@/lib/riskDimensions'
+
+// TypeScript interfaces based on actual test responses
+export interface PlanStep {
+  step_number: number
+  action: string
+  action_tag: string
+  concerns: string[]
+}
+
+export interface WorkerPlan {
+  steps: PlanStep[]
+  resources_needed: string[]
+  external_systems: string[]
+}
+
+export type RiskExplanations = Record<RiskDimension, string>
+
+/**
+ * Sentinel scores for a single plan step
+ */
+export interface StepRiskAssessment {
+  step_number: number
+  risk_scores: RiskScores
+  risk_explanations: Partial<RiskExplanations>
+}
+
+export interface SentinelResult {
+  /** Plan-level scores, rolled up from step_assessments when present */
+  risk_scores: RiskScores
+  risk_explanations: RiskExplanations
+  step_assessments?: StepRiskAssessment[]
+  /** Present when several Sentinel evaluations were aggregated */
+  ensemble?: EnsembleSummary
+}
+
+export interface AssessmentAgents {
+  worker_agent_id: string
+  sentinel_agent_id: string
+}
+
+export interface AssessmentSessions {
+  worker_session_id?: string
+  sentinel_session_id?: string
+}
+
+/**
+ * Links a revised plan's assessment to the one it revises
+ */
+export interface AssessmentRevision {
+  iteration: number
+  previous_assessment_id?: string
+}
+
+export interface ClarificationAnswer {
+  question: string
+  answer: string
+}
+
+/**
+ * Links a re-assessment to the ASK_FOR_CLARIFICATION verdict it answers
+ */
+export interface AssessmentClarification {
+  original_task: string
+  answers: ClarificationAnswer[]
+  previous_verdict: Verdict
+  previous_assessment_id?: string
+}
+
+/**
+ * Where an assessment's plan and scores were produced: `server` by the
+ * /api/assess pipeline, `client` when the browser ran the agents and posted
+ * the results to /api/assessments
+ */
+export type AssessmentSource = 'server' | 'client'
+
+export interface AssessmentResult {
+  task: string
+  plan: WorkerPlan
+  sentinel: SentinelResult
+  verdict: Verdict
+  agents: AssessmentAgents
+  sessions: AssessmentSessions
+  revision?: AssessmentRevision
+  clarification?: AssessmentClarification
+  /** Content scanner findings on the task and plan, masked */
+  findings?: ScanFinding[]
+  /** Absent on records stored before the source was recorded */
+  source?: AssessmentSource
+  started_at: string
+  completed_at: string
+}
+
+/**
+ * An assessment as stored in the audit log
+ */
+export interface AssessmentRecord extends AssessmentResult {
+  id: string
+  created_at: string
+  /** Link in the tamper-evident hash chain; absent on records stored before chaining */
+  chain?: ChainLink
+}
+
+/** Action tags the Worker Agent assigns to plan steps */
+export const ACTION_TAGS = ['READ', 'CREATE', 'SEND', 'DELETE', 'MODIFY'] as const
+
+/**
+ * One plan version in a MODIFY → revise loop
+ */
+export interface PlanIteration {
+  iteration: number
+  plan: WorkerPlan
+  verdict: Verdict
+  assessment_id?: string
+}
+
+const configuredRevisions = Number(process.env.NEXT_PUBLIC_SENTINEL_MAX_REVISIONS || NaN)
+
+/** Maximum number of Worker revisions per task; 0 disables revising */
+export const MAX_PLAN_REVISIONS = Number.isFinite(configuredRevisions) ? Math.max(0, Math.floor(configuredRevisions)) : 3
+
+/**
+ * Message sent to the Sentinel Agent for a plan
+ *
+ * Asks for step-level scores alongside the plan-level ones so the UI can
+ * point at the step that drives each dimension.
+ */
+export function buildSentinelMessage(plan: WorkerPlan): string {
+  return JSON.stringify({
+    plan,
+    scoring: {
+      mode: 'per_step',
+      score_range: RISK_SCORE_RANGE,
+      dimensions: RISK_DIMENSION_REGISTRY.dimensions.map(({ id, label, description }) => ({ id, label, description })),
+      response_format: buildRiskSchema(),
+      instructions:
+        `Score every step on exactly the listed dimensions (${RISK_SCORE_RANGE.min}-${RISK_SCORE_RANGE.max}) and return them in result.step_assessments as ` +
+        '[{ step_number, risk_scores, risk_explanations }], in addition to the plan-level risk_scores and risk_explanations.',
+    },
+  })
+}
+
+/**
+ * Message asking the Worker Agent for a safer version of a plan
+ */
+export function buildRevisionMessage(task: string, plan: WorkerPlan, sentinel: SentinelResult, verdict: Verdict): string {
+  const feedback = Object.keys(sentinel.risk_scores)
+    .filter((dimension) => sentinel.risk_scores[dimension] > 0)
+    .sort((a, b) => sentinel.risk_scores[b] - sentinel.risk_scores[a])
+    .map(
+      (dimension) =>
+        `- ${getDimensionLabel(dimension)} (${sentinel.risk_scores[dimension]}/${RISK_SCORE_RANGE.max}): ${sentinel.risk_explanations[dimension] || 'No explanation given'}`
+    )
+
+  return [
+    'Revise the execution plan below so it is safer while still accomplishing the original task.',
+    'Address each risk raised by the Sentinel review: add safeguards, approvals, dry runs or reversible alternatives where possible.',
+    'Return a complete revised plan in the same format as before.',
+    '',
+    `Original task: ${task}`,
+    '',
+    `Current plan: ${JSON.stringify(plan)}`,
+    '',
+    `Sentinel verdict: ${verdict.type} (weighted score ${verdict.weightedScore.toFixed(2)})`,
+    ...verdict.triggeredRules.map((rule) => `- ${rule}`),
+    '',
+    'Sentinel risk feedback:',
+    ...feedback,
+  ].join('\n')
+}
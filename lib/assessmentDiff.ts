@@ -0,0 +1,73 @@
+/**
+ * Assessment Diff
+ *
+ * Compares two stored assessments, such as a task re-run or a revised plan:
+ * the plan (via lib/planDiff.ts), each risk score with its delta, and the
+ * verdict with its triggered rules.
+ */
+
+import { diffLists, diffPlans, type ListDiff, type PlanDiff } from '@/lib/planDiff'
+import { RISK_DIMENSIONS } from '@/lib/riskDimensions'
+import type { RiskDimension, VerdictType } from '@/lib/decisionEngine'
+import type { AssessmentRecord } from '@/lib/assessment'
+
+// Types
+export interface ScoreDelta {
+  dimension: RiskDimension
+  before: number
+  after: number
+  /** after − before */
+  delta: number
+}
+
+export interface AssessmentDiff {
+  plan: PlanDiff
+  scores: ScoreDelta[]
+  verdict: {
+    before: VerdictType
+    after: VerdictType
+    changed: boolean
+  }
+  weighted_score: { before: number; after: number; delta: number }
+  triggered_rules: ListDiff
+  policy_version: { before?: string; after?: string; changed: boolean }
+  /** Same task text, ignoring case and whitespace */
+  sameTask: boolean
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * Compare two assessments, `before` being the baseline
+ */
+export function diffAssessments(before: AssessmentRecord, after: AssessmentRecord): AssessmentDiff {
+  const scores = RISK_DIMENSIONS.map((dimension) => {
+    const beforeScore = before.sentinel.risk_scores[dimension] ?? 0
+    const afterScore = after.sentinel.risk_scores[dimension] ?? 0
+    return { dimension, before: beforeScore, after: afterScore, delta: afterScore - beforeScore }
+  })
+
+  return {
+    plan: diffPlans(before.plan, after.plan),
+    scores,
+    verdict: {
+      before: before.verdict.type,
+      after: after.verdict.type,
+      changed: before.verdict.type !== after.verdict.type,
+    },
+    weighted_score: {
+      before: before.verdict.weightedScore,
+      after: after.verdict.weightedScore,
+      delta: round(after.verdict.weightedScore - before.verdict.weightedScore),
+    },
+    triggered_rules: diffLists(before.verdict.triggeredRules, after.verdict.triggeredRules),
+    policy_version: {
+      before: before.verdict.policyVersion,
+      after: after.verdict.policyVersion,
+      changed: before.verdict.policyVersion !== after.verdict.policyVersion,
+    },
+    sameTask: normalize(before.task) === normalize(after.task),
+  }
+}
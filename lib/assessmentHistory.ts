@@ -0,0 +1,104 @@
+'use client'
+
+/**
+ * Assessment History Client Utility
+ *
+ * Client-side wrapper for the stored assessment audit log via API routes.
+ */
+
+import type { VerdictType } from '@/lib/decisionEngine'
+import type { AssessmentRecord, AssessmentResult } from '@/lib/assessment'
+
+// Types
+export interface HistoryFilters {
+  verdict?: VerdictType[]
+  from?: string
+  to?: string
+  action_tag?: string
+  q?: string
+  limit?: number
+}
+
+export interface ListAssessmentsResponse {
+  success: boolean
+  assessments?: AssessmentRecord[]
+  total?: number
+  error?: string
+  timestamp?: string
+}
+
+export interface AssessmentResponse {
+  success: boolean
+  assessment?: AssessmentRecord
+  error?: string
+  timestamp?: string
+}
+
+/**
+ * Store a completed assessment in the audit log
+ */
+export async function recordAssessment(assessment: AssessmentResult): Promise<AssessmentResponse> {
+  try {
+    const response = await fetch('/api/assessments', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(assessment),
+    })
+
+    const data = await response.json()
+    return data
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+/**
+ * List stored assessments matching the filters
+ */
+export async function fetchAssessments(filters: HistoryFilters = {}): Promise<ListAssessmentsResponse> {
+  const params = new URLSearchParams()
+  filters.verdict?.forEach((type) => params.append('verdict', type))
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.action_tag) params.set('action_tag', filters.action_tag)
+  if (filters.q) params.set('q', filters.q)
+  if (filters.limit) params.set('limit', String(filters.limit))
+
+  try {
+    const response = await fetch(`/api/assessments?${params.toString()}`, {
+      method: 'GET',
+    })
+
+    const data = await response.json()
+    return data
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+/**
+ * Fetch a single stored assessment
+ */
+export async function fetchAssessment(id: string): Promise<AssessmentResponse> {
+  try {
+    const response = await fetch(`/api/assessments/${encodeURIComponent(id)}`, {
+      method: 'GET',
+    })
+
+    const data = await response.json()
+    return data
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Assessment Pipeline
+ *
+ * Server-side Worker → Sentinel → Decision Engine run, so verdicts can be
+ * produced without the browser UI.
+ *
+ * @example
+ * ```ts
+ * const outcome = await runAssessment('Email all customers about a price increase')
+ * if (outcome.success && outcome.assessment.verdict.type === 'BLOCK') {
+ *   // stop the job
+ * }
+ * ```
+ */
+
+import { invokeAgentWithRepair } from '@/lib/agentService'
+import { rollUpStepScores } from '@/lib/stepScoring'
+import { DEFAULT_DECISION_POLICY, type DecisionPolicy } from '@/lib/decisionEngine'
+import {
+  calculateEnsembleVerdict,
+  combineSentinelResults,
+  DEFAULT_ENSEMBLE_CONFIG,
+  getEnsembleAgentIds,
+  type EnsembleConfig,
+  type SentinelEvaluation,
+} from '@/lib/ensemble'
+import { validateSentinelOutput, validateWorkerOutput } from '@/lib/agentOutput'
+import { resolveAgentId } from '@/lib/agentRegistry'
+import type { ProviderName } from '@/lib/agentProviders'
+import { formatSchemaIssues, type SchemaIssue } from '@/lib/responseSchema'
+import { CONTENT_SCANNER_CONFIG, getScanFloors, redactText, scanPlan, scanText } from '@/lib/contentScanner'
+import {
+  buildSentinelMessage,
+  type AssessmentResult,
+} from '@/lib/assessment'
+
+export type AssessmentStage = 'worker' | 'sentinel'
+
+export interface AssessmentOptions {
+  user_id?: string
+  policy?: DecisionPolicy
+  worker_agent_id?: string
+  sentinel_agent_id?: string
+  /** Several Sentinel evaluations aggregated into one result; its `agent_ids` take precedence over `sentinel_agent_id` */
+  ensemble?: EnsembleConfig
+  /** Overrides the env-configured provider for every agent call, e.g. `mock` */
+  provider?: ProviderName
+}
+
+export interface AssessmentOutcome {
+  success: boolean
+  assessment?: AssessmentResult
+  stage?: AssessmentStage
+  /** HTTP status for failed runs */
+  status?: number
+  error?: string
+  /** Schema issues when an agent returned malformed output */
+  issues?: SchemaIssue[]
+}
+
+function malformedOutput(stage: AssessmentStage, issues: SchemaIssue[]): AssessmentOutcome {
+  return {
+    success: false,
+    stage,
+    status: 502,
+    error: `Malformed ${stage} output: ${formatSchemaIssues(issues)}`,
+    issues,
+  }
+}
+
+/**
+ * Run the full pipeline for a task
+ */
+export async function runAssessment(task: string, options: AssessmentOptions = {}): Promise<AssessmentOutcome> {
+  const workerAgentId = options.worker_agent_id || resolveAgentId('worker')
+  const sentinelAgentId = options.sentinel_agent_id || resolveAgentId('sentinel')
+  const policy = options.policy || DEFAULT_DECISION_POLICY
+  const startedAt = new Date().toISOString()
+
+  // Secrets and personal data are redacted before the task reaches any agent
+  const taskFindings = scanText(task)
+  const message = CONTENT_SCANNER_CONFIG.redact_before_send ? redactText(task, taskFindings) : task
+
+  const worker = await invokeAgentWithRepair(
+    { message, agent_id: workerAgentId, user_id: options.user_id, provider: options.provider },
+    { role: 'worker' }
+  )
+  if (!worker.body.success || worker.body.response.status !== 'success') {
+    return {
+      success: false,
+      stage: 'worker',
+      status: worker.status >= 400 ? worker.status : 502,
+      error: worker.body.response.message || worker.body.error || 'Failed to generate plan',
+    }
+  }
+
+  const workerOutput = validateWorkerOutput(worker.body.response.result)
+  if (!workerOutput.valid) {
+    return malformedOutput('worker', workerOutput.issues)
+  }
+  const plan = workerOutput.value
+
+  const ensemble = options.ensemble || DEFAULT_ENSEMBLE_CONFIG
+  const sentinelAgentIds = getEnsembleAgentIds(ensemble, sentinelAgentId)
+
+  // Evaluations run in parallel; any failure fails the stage
+  const sentinels = await Promise.all(
+    sentinelAgentIds.map((agentId) =>
+      invokeAgentWithRepair(
+        {
+          message: buildSentinelMessage(plan),
+          agent_id: agentId,
+          user_id: worker.body.user_id,
+          provider: options.provider,
+        },
+        { role: 'sentinel' }
+      )
+    )
+  )
+
+  const evaluations: SentinelEvaluation[] = []
+  for (let index = 0; index < sentinels.length; index++) {
+    const sentinel = sentinels[index]
+    if (!sentinel.body.success || sentinel.body.response.status !== 'success') {
+      return {
+        success: false,
+        stage: 'sentinel',
+        status: sentinel.status >= 400 ? sentinel.status : 502,
+        error: sentinel.body.response.message || sentinel.body.error || 'Failed to evaluate plan',
+      }
+    }
+
+    const sentinelOutput = validateSentinelOutput(sentinel.body.response.result)
+    if (!sentinelOutput.valid) {
+      return malformedOutput('sentinel', sentinelOutput.issues)
+    }
+
+    evaluations.push({
+      agent_id: sentinelAgentIds[index],
+      session_id: sentinel.body.session_id,
+      result: rollUpStepScores(sentinelOutput.value),
+    })
+  }
+
+  const sentinelResult = combineSentinelResults(evaluations, ensemble.strategy)
+  const findings = [...taskFindings, ...scanPlan(plan)]
+  const verdict = calculateEnsembleVerdict(sentinelResult, policy, {
+    task: message,
+    plan,
+    floors: getScanFloors(findings),
+  })
+
+  return {
+    success: true,
+    assessment: {
+      task: message,
+      plan,
+      sentinel: sentinelResult,
+      verdict,
+      agents: {
+        worker_agent_id: workerAgentId,
+        sentinel_agent_id: sentinelAgentIds[0],
+      },
+      sessions: {
+        worker_session_id: worker.body.session_id,
+        sentinel_session_id: evaluations[0].session_id,
+      },
+      findings,
+      source: 'server',
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+    },
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Assessment Store
+ *
+ * Server-side, append-only history of completed assessments. Each record is
+ * linked into a hash chain (see lib/auditChain.ts) as it is appended.
+ */
+
+import { appendJsonLine, readJsonLines, readLines } from '@/lib/fileStore'
+import { linkRecord, verifyChain, type ChainVerification } from '@/lib/auditChain'
+import { createApprovalRequestIfRequired, getHumanDecisions } from '@/lib/approvalStore'
+import { generateUUID } from '@/lib/utils'
+import type { VerdictType } from '@/lib/decisionEngine'
+import type { AssessmentRecord, AssessmentResult } from '@/lib/assessment'
+
+const ASSESSMENTS_FILE = 'assessments.jsonl'
+
+// Types
+export interface AssessmentFilters {
+  verdict?: VerdictType[]
+  /** Inclusive ISO date or timestamp */
+  from?: string
+  /** Inclusive ISO date or timestamp; a bare date covers the whole day */
+  to?: string
+  action_tag?: string
+  /** Case-insensitive match against the task text */
+  query?: string
+  limit?: number
+}
+
+/** Appends run one at a time so each record links to the one stored before it */
+let appending: Promise<unknown> = Promise.resolve()
+
+function appendLinkedRecord(record: AssessmentRecord): Promise<AssessmentRecord> {
+  const append = appending.then(async () => {
+    const lines = await readLines(ASSESSMENTS_FILE)
+    const previous: AssessmentRecord | undefined = lines.length > 0 ? JSON.parse(lines[lines.length - 1]) : undefined
+    const linked = linkRecord(record, previous, lines.length)
+    await appendJsonLine(ASSESSMENTS_FILE, linked)
+    return linked
+  })
+  appending = append.catch(() => undefined)
+  return append
+}
+
+/**
+ * Persist a completed assessment
+ *
+ * BLOCK and MODIFY verdicts are queued for human approval at the same time.
+ */
+export async function saveAssessment(assessment: AssessmentResult): Promise<AssessmentRecord> {
+  const record = await appendLinkedRecord({
+    ...assessment,
+    id: generateUUID(),
+    created_at: new Date().toISOString(),
+  })
+
+  const approval = await createApprovalRequestIfRequired(record)
+  if (approval) {
+    record.verdict = { ...record.verdict, humanDecision: approval.decision }
+  }
+
+  return record
+}
+
+/**
+ * Stored records are immutable; the reviewer's decision is joined in on read
+ */
+async function loadRecords(): Promise<AssessmentRecord[]> {
+  const [records, decisions] = await Promise.all([
+    readJsonLines<AssessmentRecord>(ASSESSMENTS_FILE),
+    getHumanDecisions(),
+  ])
+
+  return records.map((record) => {
+    const humanDecision = decisions.get(record.id)
+    return humanDecision ? { ...record, verdict: { ...record.verdict, humanDecision } } : record
+  })
+}
+
+const toTime = (value: string, endOfDay: boolean): number => {
+  const isBareDate = /^\d{4}-\d{2}-\d{2}$/.test(value)
+  const time = new Date(isBareDate ? `${value}T00:00:00.000Z` : value).getTime()
+  return isBareDate && endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time
+}
+
+/**
+ * List stored assessments, newest first
+ */
+export async function listAssessments(filters: AssessmentFilters = {}): Promise<AssessmentRecord[]> {
+  const records = await loadRecords()
+  const from = filters.from ? toTime(filters.from, false) : null
+  const to = filters.to ? toTime(filters.to, true) : null
+  const query = filters.query?.trim().toLowerCase()
+
+  const matches = records.filter((record) => {
+    if (filters.verdict?.length && !filters.verdict.includes(record.verdict.type)) return false
+
+    const createdAt = new Date(record.created_at).getTime()
+    if (from !== null && createdAt < from) return false
+    if (to !== null && createdAt > to) return false
+
+    if (filters.action_tag && !record.plan?.steps?.some((step) => step.action_tag === filters.action_tag)) {
+      return false
+    }
+
+    if (query && !record.task.toLowerCase().includes(query)) return false
+
+    return true
+  })
+
+  matches.reverse()
+  return filters.limit ? matches.slice(0, filters.limit) : matches
+}
+
+/**
+ * Get a single assessment by ID
+ */
+export async function getAssessment(id: string): Promise<AssessmentRecord | null> {
+  const records = await loadRecords()
+  return records.find((record) => record.id === id) || null
+}
+
+/**
+ * Walk the hash chain over the stored assessments
+ */
+export async function verifyAssessmentChain(expectedHead?: string): Promise<ChainVerification> {
+  return verifyChain(await readLines(ASSESSMENTS_FILE), expectedHead)
+}
@@ -0,0 +1,166 @@
+/**
+ * Audit Chain
+ *
+ * Tamper-evident hash chain over stored assessments. Every record carries the
+ * SHA-256 of its own content and the hash of the record before it, so editing,
+ * removing or reordering a record breaks every link after it. Records stored
+ * before the chain existed are reported as legacy, not as failures.
+ *
+ * Truncating the end of the log cannot be detected from the log alone; keep
+ * the head hash reported by verification somewhere outside it and pass it
+ * back as `expectedHead` on later checks.
+ *
+ * Server-only: uses Node's crypto module.
+ *
+ * @example
+ * ```ts
+ * const record = linkRecord(unlinked, previousRecord, sequence)
+ * const report = verifyChain(lines)
+ * ```
+ */
+
+import { createHash } from 'crypto'
+import type { AssessmentRecord } from '@/lib/assessment'
+
+// Types
+export interface ChainLink {
+  /** Position of the record in the assessment log, from 0 */
+  sequence: number
+  previous_hash: string
+  /** SHA-256 of the record, covering every field except this one */
+  hash: string
+}
+
+export type ChainIssueKind = 'unreadable' | 'hash_mismatch' | 'broken_link' | 'sequence_gap' | 'unchained' | 'missing_head'
+
+export interface ChainIssue {
+  /** Line in the assessment log, from 0; -1 for the log as a whole */
+  index: number
+  id?: string
+  kind: ChainIssueKind
+  message: string
+}
+
+export interface ChainVerification {
+  valid: boolean
+  total: number
+  chained: number
+  /** Records stored before chaining was introduced */
+  legacy: number
+  issues: ChainIssue[]
+  /** Last chained record; its hash commits to the whole chain */
+  head?: { id: string; sequence: number; hash: string }
+}
+
+/** previous_hash of the first chained record */
+export const GENESIS_HASH = '0'.repeat(64)
+
+/**
+ * JSON with object keys sorted at every level, so hashing does not depend on key order
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((entry) => (entry === undefined ? 'null' : canonicalJson(entry))).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Hash a record's content, including its sequence and previous hash
+ */
+export function hashRecord(record: AssessmentRecord): string {
+  const { chain, ...content } = record
+  const linked = chain ? { ...content, chain: { sequence: chain.sequence, previous_hash: chain.previous_hash } } : content
+  return createHash('sha256').update(canonicalJson(linked), 'utf8').digest('hex')
+}
+
+/**
+ * Attach the chain link to a record about to be appended at `sequence`
+ */
+export function linkRecord(record: AssessmentRecord, previous: AssessmentRecord | undefined, sequence: number): AssessmentRecord {
+  const unlinked: AssessmentRecord = {
+    ...record,
+    chain: { sequence, previous_hash: previous?.chain?.hash || GENESIS_HASH, hash: '' },
+  }
+  return { ...unlinked, chain: { ...unlinked.chain, hash: hashRecord(unlinked) } }
+}
+
+/**
+ * Walk the assessment log line by line and report every broken or missing link
+ *
+ * `expectedHead` is a head hash from an earlier check, which must still be in the chain.
+ */
+export function verifyChain(lines: string[], expectedHead?: string): ChainVerification {
+  const issues: ChainIssue[] = []
+  const hashes = new Set<string>()
+  let previousHash: string | null = null
+  let legacy = 0
+  let chained = 0
+  let head: ChainVerification['head']
+
+  lines.forEach((line, index) => {
+    let record: AssessmentRecord
+    try {
+      record = JSON.parse(line)
+    } catch {
+      issues.push({ index, kind: 'unreadable', message: `Line ${index + 1} is not valid JSON` })
+      previousHash = null
+      return
+    }
+
+    const label = `Record ${index + 1} (${record.id || 'no id'})`
+
+    if (!record.chain) {
+      // Legacy records may only precede the chain
+      if (chained === 0) legacy++
+      else issues.push({ index, id: record.id, kind: 'unchained', message: `${label} has no chain link` })
+      previousHash = null
+      return
+    }
+
+    chained++
+    const { sequence, previous_hash, hash } = record.chain
+
+    if (hashRecord(record) !== hash) {
+      issues.push({ index, id: record.id, kind: 'hash_mismatch', message: `${label} was modified after it was stored` })
+    }
+
+    const expectedPrevious = chained === 1 ? GENESIS_HASH : previousHash
+    if (previous_hash !== expectedPrevious) {
+      issues.push({
+        index,
+        id: record.id,
+        kind: 'broken_link',
+        message: `${label} does not link to the record before it; a record may be missing or reordered`,
+      })
+    }
+
+    if (sequence !== index) {
+      issues.push({
+        index,
+        id: record.id,
+        kind: 'sequence_gap',
+        message: `${label} has sequence ${sequence}, expected ${index}`,
+      })
+    }
+
+    previousHash = hash
+    hashes.add(hash)
+    head = { id: record.id, sequence, hash }
+  })
+
+  if (expectedHead && !hashes.has(expectedHead)) {
+    issues.push({
+      index: -1,
+      kind: 'missing_head',
+      message: `No record has the expected head hash ${expectedHead}; records may have been removed from the end`,
+    })
+  }
+
+  return { valid: issues.length === 0, total: lines.length, chained, legacy, issues, head }
+}
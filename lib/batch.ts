@@ -0,0 +1,298 @@
+/**
+ * Batch Assessment
+ *
+ * Parsing and export for batch runs: a CSV or JSONL file of tasks goes in,
+ * one row per task comes back with its verdict. Runs are executed server-side
+ * by /api/batch (see lib/batchRunner.ts), which streams each row as NDJSON as
+ * soon as it finishes.
+ *
+ * CSV files need a `task` column, or a single column of tasks without a
+ * header. JSONL files hold one `{"task": "..."}` object or JSON string per line.
+ *
+ * @example
+ * ```ts
+ * const parsed = parseBatchFile(text, 'red-team.csv')
+ * if (parsed.success) {
+ *   await streamBatch(file, { onResult: (row) => setRows((prev) => [...prev, row]) })
+ * }
+ * ```
+ */
+
+import type { RiskScores, VerdictType } from '@/lib/decisionEngine'
+
+// Types
+export type BatchFormat = 'csv' | 'jsonl'
+
+export interface BatchTask {
+  /** 1-based position among the file's tasks */
+  row: number
+  task: string
+}
+
+export interface BatchParseResult {
+  success: boolean
+  format?: BatchFormat
+  tasks: BatchTask[]
+  errors: string[]
+}
+
+export interface BatchRowResult {
+  row: number
+  /** Task as sent to the agents, after redaction */
+  task: string
+  status: 'success' | 'error'
+  assessment_id?: string
+  verdict?: VerdictType
+  weighted_score?: number
+  triggered_rules?: string[]
+  risk_scores?: RiskScores
+  /** Pipeline stage that failed */
+  stage?: string
+  error?: string
+}
+
+export interface BatchSummary {
+  total: number
+  succeeded: number
+  failed: number
+  verdicts: Partial<Record<VerdictType, number>>
+}
+
+export interface BatchStreamEvent {
+  type: 'result' | 'done'
+  result?: BatchRowResult
+  summary?: BatchSummary
+}
+
+export const MAX_BATCH_TASKS = Number(process.env.NEXT_PUBLIC_SENTINEL_BATCH_MAX_TASKS) || 500
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields and `""` escapes
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''))
+}
+
+function parseCsvTasks(text: string): Omit<BatchParseResult, 'format'> {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (rows.length === 0) return { success: false, tasks: [], errors: ['File has no tasks'] }
+
+  const header = rows[0].map((value) => value.trim().toLowerCase())
+  const taskColumn = header.indexOf('task')
+
+  if (taskColumn === -1 && header.length > 1) {
+    return { success: false, tasks: [], errors: ['CSV needs a "task" column'] }
+  }
+
+  const dataRows = taskColumn === -1 ? rows : rows.slice(1)
+  const column = Math.max(taskColumn, 0)
+
+  return {
+    success: true,
+    tasks: dataRows
+      .map((fields) => (fields[column] || '').trim())
+      .filter(Boolean)
+      .map((task, index) => ({ row: index + 1, task })),
+    errors: [],
+  }
+}
+
+function parseJsonlTasks(text: string): Omit<BatchParseResult, 'format'> {
+  const tasks: BatchTask[] = []
+  const errors: string[] = []
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return
+
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch {
+      errors.push(`Line ${index + 1}: invalid JSON`)
+      return
+    }
+
+    const task = typeof value === 'string' ? value : (value as { task?: unknown })?.task
+    if (typeof task !== 'string' || !task.trim()) {
+      errors.push(`Line ${index + 1}: expected {"task": "..."} or a string`)
+      return
+    }
+    tasks.push({ row: tasks.length + 1, task: task.trim() })
+  })
+
+  return { success: errors.length === 0, tasks, errors }
+}
+
+/**
+ * Detect the format from the file name, falling back to the first character
+ */
+export function detectBatchFormat(text: string, fileName = ''): BatchFormat {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'csv') return 'csv'
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl'
+  return /^\s*[{"]/.test(text) ? 'jsonl' : 'csv'
+}
+
+/**
+ * Parse an uploaded batch file into tasks
+ */
+export function parseBatchFile(text: string, fileName?: string): BatchParseResult {
+  const format = detectBatchFormat(text, fileName)
+  const parsed = format === 'csv' ? parseCsvTasks(text) : parseJsonlTasks(text)
+
+  if (parsed.success && parsed.tasks.length === 0) {
+    return { success: false, format, tasks: [], errors: ['File has no tasks'] }
+  }
+  if (parsed.tasks.length > MAX_BATCH_TASKS) {
+    return {
+      success: false,
+      format,
+      tasks: parsed.tasks,
+      errors: [...parsed.errors, `File has ${parsed.tasks.length} tasks; the limit is ${MAX_BATCH_TASKS}`],
+    }
+  }
+  return { ...parsed, format }
+}
+
+/**
+ * Count rows by outcome and verdict
+ */
+export function summarizeBatch(results: BatchRowResult[]): BatchSummary {
+  const verdicts: BatchSummary['verdicts'] = {}
+  for (const result of results) {
+    if (result.verdict) verdicts[result.verdict] = (verdicts[result.verdict] || 0) + 1
+  }
+
+  const succeeded = results.filter((result) => result.status === 'success').length
+  return { total: results.length, succeeded, failed: results.length - succeeded, verdicts }
+}
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Results as CSV, one line per task in row order
+ */
+export function batchResultsToCsv(results: BatchRowResult[]): string {
+  const header = ['row', 'task', 'status', 'verdict', 'weighted_score', 'triggered_rules', 'assessment_id', 'error']
+  const lines = [...results]
+    .sort((a, b) => a.row - b.row)
+    .map((result) =>
+      [
+        result.row,
+        result.task,
+        result.status,
+        result.verdict,
+        result.weighted_score?.toFixed(2),
+        result.triggered_rules?.join('; '),
+        result.assessment_id,
+        result.error,
+      ]
+        .map(csvField)
+        .join(',')
+    )
+  return [header.join(','), ...lines].join('\n') + '\n'
+}
+
+/**
+ * Results as JSONL, one line per task in row order
+ */
+export function batchResultsToJsonl(results: BatchRowResult[]): string {
+  return (
+    [...results]
+      .sort((a, b) => a.row - b.row)
+      .map((result) => JSON.stringify(result))
+      .join('\n') + '\n'
+  )
+}
+
+/**
+ * Upload a batch file to /api/batch, reporting each row as it finishes
+ *
+ * Resolves with the summary once every task has run.
+ */
+export async function streamBatch(
+  file: File,
+  options: { user_id?: string; concurrency?: number; onResult?: (result: BatchRowResult) => void } = {}
+): Promise<{ success: boolean; summary?: BatchSummary; error?: string; errors?: string[] }> {
+  const formData = new FormData()
+  formData.append('file', file, file.name)
+  if (options.user_id) formData.append('user_id', options.user_id)
+  if (options.concurrency) formData.append('concurrency', String(options.concurrency))
+
+  try {
+    const response = await fetch('/api/batch', { method: 'POST', body: formData })
+
+    // Validation errors come back as plain JSON
+    if (!response.body || !(response.headers.get('content-type') || '').includes('ndjson')) {
+      return await response.json()
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        if (!line.trim()) continue
+        const event: BatchStreamEvent = JSON.parse(line)
+        if (event.type === 'result' && event.result) options.onResult?.(event.result)
+        if (event.type === 'done') return { success: true, summary: event.summary }
+      }
+    }
+
+    throw new Error('Stream ended before the batch finished')
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Batch Runner
+ *
+ * Runs the assessment pipeline over many tasks with a bounded number in
+ * flight, so a large red-team file does not flood the agent backend. Every
+ * successful assessment is stored like a single run; failures are reported
+ * per row and do not stop the batch.
+ *
+ * @example
+ * ```ts
+ * const results = await runBatch(parsed.tasks, { onResult: (row) => send(row) })
+ * ```
+ */
+
+import { runAssessment, type AssessmentOptions } from '@/lib/assessmentPipeline'
+import { saveAssessment } from '@/lib/assessmentStore'
+import { CONTENT_SCANNER_CONFIG, redactText, scanText } from '@/lib/contentScanner'
+import type { BatchRowResult, BatchTask } from '@/lib/batch'
+
+// Types
+export interface BatchOptions extends AssessmentOptions {
+  /** Tasks assessed at the same time */
+  concurrency?: number
+  /** Called as each row finishes, in completion order */
+  onResult?: (result: BatchRowResult) => void
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = Number(process.env.SENTINEL_BATCH_CONCURRENCY) || 3
+
+/**
+ * Map over items with at most `limit` calls pending, keeping input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker))
+  return results
+}
+
+async function runBatchTask(item: BatchTask, options: AssessmentOptions): Promise<BatchRowResult> {
+  // Failed rows echo the task back, so they get the same redaction as stored ones
+  const task = CONTENT_SCANNER_CONFIG.redact_before_send ? redactText(item.task, scanText(item.task)) : item.task
+
+  try {
+    const outcome = await runAssessment(item.task, options)
+    if (!outcome.success) {
+      return { row: item.row, task, status: 'error', stage: outcome.stage, error: outcome.error }
+    }
+
+    const assessment = await saveAssessment(outcome.assessment)
+    return {
+      row: item.row,
+      task: assessment.task,
+      status: 'success',
+      assessment_id: assessment.id,
+      verdict: assessment.verdict.type,
+      weighted_score: assessment.verdict.weightedScore,
+      triggered_rules: assessment.verdict.triggeredRules,
+      risk_scores: assessment.sentinel.risk_scores,
+    }
+  } catch (error) {
+    return { row: item.row, task, status: 'error', error: error instanceof Error ? error.message : 'Server error' }
+  }
+}
+
+/**
+ * Assess every task, returning the rows in file order
+ */
+export async function runBatch(tasks: BatchTask[], options: BatchOptions = {}): Promise<BatchRowResult[]> {
+  const { concurrency = DEFAULT_BATCH_CONCURRENCY, onResult, ...assessmentOptions } = options
+
+  return mapWithConcurrency(tasks, concurrency, async (item) => {
+    const result = await runBatchTask(item, assessmentOptions)
+    onResult?.(result)
+    return result
+  })
+}
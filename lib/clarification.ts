@@ -0,0 +1,120 @@
+/**
+ * Clarification Questions
+ *
+ * Turns the Sentinel's missing_context explanation into concrete questions
+ * for the requester, and folds the answers back into the task text.
+ * Deterministic: no agent call is needed to generate the questions.
+ */
+
+import type { ClarificationAnswer, SentinelResult, WorkerPlan } from '@/lib/assessment'
+
+// Types
+export interface ClarifyingQuestion {
+  id: string
+  question: string
+  /** Text the question was derived from */
+  source: string
+}
+
+/** Upper bound on questions shown to the requester */
+export const MAX_CLARIFYING_QUESTIONS = 5
+
+const GAP_PATTERN =
+  /\b(missing|unclear|not (?:clearly )?(?:specified|defined|provided|mentioned|stated|known|given)|(?:does|do) not (?:specify|state|mention|say|include|indicate|define)|no\s+[\w\s]+?\s+(?:is|are)\s+(?:given|provided|specified|mentioned|defined)|unspecified|undefined|unknown|lack(?:s|ing)?|no (?:information|details)|ambiguous|only briefly|further details|insufficient|uncertain)\b/i
+
+const TOPIC_PATTERNS: RegExp[] = [
+  // "... details about regulatory requirements and approval authority are only briefly mentioned"
+  /\b(?:details|information|context|clarity|specifics|confirmation)\s+(?:about|on|regarding|of|for|around)\s+(.+?)(?:\s+(?:is|are|was|were|has|have)\b|[.;:]|$)/i,
+  // "The task does not specify which database or who owns the data"
+  /\b(?:does|do)\s+not\s+(?:specify|state|mention|say|include|indicate|define)\s+(.+?)(?:[.;:]|$)/i,
+  // "No timeline is given"
+  /\bno\s+(.+?)\s+(?:is|are|was|were)\s+(?:given|provided|specified|mentioned|defined)/i,
+  // "... lacks / is missing the target audience"
+  /\b(?:lacks?|lacking|missing|no)\s+(?:any\s+)?(?:the\s+)?(.+?)(?:[.;:,]|$)/i,
+  // "The target audience is unclear"
+  /^(?:the\s+)?(.+?)\s+(?:is|are)\s+(?:not\s+|un)/i,
+]
+
+const splitSentences = (text: string) =>
+  text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+
+const splitTopics = (topic: string) =>
+  topic
+    .split(/,\s*(?:and\s+|or\s+)?|\s+and\s+|\s+or\s+/)
+    .map((part) => part.trim().replace(/^(?:the|any|a|an)\s+/i, ''))
+    .filter((part) => part.split(/\s+/).length >= 2 || part.length > 6)
+
+const toQuestion = (topic: string) => {
+  const cleaned = topic.replace(/[.?!]+$/, '')
+  return /^(?:which|what|who|whom|when|where|why|how|whether)\b/i.test(cleaned)
+    ? `Can you specify ${cleaned}?`
+    : `Can you provide details about ${cleaned}?`
+}
+
+/**
+ * Generate clarifying questions from the Sentinel's missing_context explanation
+ *
+ * Plan step concerns that flag missing information are used as a fallback
+ * source. Always returns at least one question.
+ */
+export function generateClarifyingQuestions(sentinel: SentinelResult, plan?: WorkerPlan | null): ClarifyingQuestion[] {
+  const questions: ClarifyingQuestion[] = []
+  const seen = new Set<string>()
+
+  const add = (question: string, source: string) => {
+    const key = question.toLowerCase()
+    if (seen.has(key) || questions.length >= MAX_CLARIFYING_QUESTIONS) return
+    seen.add(key)
+    questions.push({ id: `q${questions.length + 1}`, question, source })
+  }
+
+  const explanation = sentinel.risk_explanations?.missing_context || ''
+
+  for (const sentence of splitSentences(explanation)) {
+    if (!GAP_PATTERN.test(sentence)) continue
+
+    const match = TOPIC_PATTERNS.map((pattern) => sentence.match(pattern)).find((m) => m && m[1])
+    const topics = match ? splitTopics(match[1]) : []
+
+    if (topics.length > 0) {
+      topics.forEach((topic) => add(toQuestion(topic), sentence))
+    } else {
+      add(`Could you clarify the following: ${sentence.replace(/[.?!]+$/, '')}?`, sentence)
+    }
+  }
+
+  for (const step of plan?.steps || []) {
+    for (const concern of step.concerns || []) {
+      if (GAP_PATTERN.test(concern)) {
+        add(`Regarding step ${step.step_number} (${step.action_tag}): how should "${concern}" be addressed?`, concern)
+      }
+    }
+  }
+
+  if (questions.length === 0) {
+    add(
+      'What additional context (goals, constraints, approvals, affected parties) should be considered before executing this task?',
+      explanation
+    )
+  }
+
+  return questions
+}
+
+/**
+ * Append answered clarifications to the original task text
+ */
+export function appendClarifications(task: string, answers: ClarificationAnswer[]): string {
+  const answered = answers.filter((entry) => entry.answer.trim().length > 0)
+  if (answered.length === 0) return task
+
+  return [
+    task.trim(),
+    '',
+    'Additional context (clarifications):',
+    ...answered.map((entry) => `- Q: ${entry.question}\n  A: ${entry.answer.trim()}`),
+  ].join('\n')
+}
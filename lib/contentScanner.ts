@@ -0,0 +1,208 @@
+/**
+ * Content Scanner
+ *
+ * Deterministic, local screening of task text and Worker plans for secrets,
+ * personal data and banned phrases. Findings are shown inline, set score
+ * floors for the decision engine and can be redacted from the task before it
+ * leaves the browser. Detectors and banned phrases are configured in
+ * config/content_scanner.json.
+ *
+ * Findings keep only a masked excerpt so they can be stored with an assessment
+ * without persisting the secret itself.
+ *
+ * @example
+ * ```ts
+ * const findings = scanText(taskInput)
+ * const message = redactText(taskInput, findings)
+ * const verdict = calculateVerdict(scores, DEFAULT_DECISION_POLICY, { floors: getScanFloors(findings) })
+ * ```
+ */
+
+import contentScannerConfig from '@/config/content_scanner.json'
+import type { RiskDimension, ScoreFloor } from '@/lib/decisionEngine'
+import type { WorkerPlan } from '@/lib/assessment'
+
+// Types
+export type FindingKind = 'api_key' | 'credential' | 'credit_card' | 'national_id' | 'email' | 'phone' | 'banned_phrase'
+
+export interface DetectorConfig {
+  label: string
+  /** Replaced by a placeholder when redacting */
+  redact: boolean
+  /** Minimum score the finding sets for a dimension */
+  floor?: { dimension: RiskDimension; min: number }
+}
+
+export interface ContentScannerConfig {
+  redact_before_send: boolean
+  detectors: Record<FindingKind, DetectorConfig>
+  banned_phrases: string[]
+}
+
+export interface ScanFinding {
+  kind: FindingKind
+  label: string
+  /** Masked excerpt of the match */
+  excerpt: string
+  /** Offsets into the scanned text */
+  start: number
+  end: number
+  source: 'task' | 'plan'
+  step_number?: number
+}
+
+export const CONTENT_SCANNER_CONFIG = contentScannerConfig as ContentScannerConfig
+
+/** Checked in order; a later match overlapping an earlier one is dropped */
+const PATTERNS: [Exclude<FindingKind, 'banned_phrase'>, RegExp][] = [
+  [
+    'api_key',
+    /\b(?:sk-[A-Za-z0-9_-]{20,}|sk_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})\b|-----BEGIN (?:RSA |EC |OPENSSH )?PRIVATE KEY-----/g,
+  ],
+  ['credential', /\b(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key)\b\s*[:=]\s*["']?[^\s"',;]{4,}/gi],
+  ['credit_card', /\b(?:\d[ -]?){12,18}\d\b/g],
+  ['national_id', /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b|\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g],
+  ['email', /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g],
+  ['phone', /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g],
+]
+
+/** Luhn checksum, so order numbers and the like are not flagged as cards */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '')
+  if (digits.length < 13 || digits.length > 19) return false
+
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * Keep the first and last two characters of a value
+ */
+export function maskValue(value: string): string {
+  if (value.length <= 6) return '•'.repeat(value.length)
+  return `${value.slice(0, 2)}${'•'.repeat(Math.min(value.length - 4, 12))}${value.slice(-2)}`
+}
+
+/**
+ * Scan text for secrets, personal data and banned phrases, in text order
+ */
+export function scanText(
+  text: string,
+  source: ScanFinding['source'] = 'task',
+  config: ContentScannerConfig = CONTENT_SCANNER_CONFIG
+): ScanFinding[] {
+  const findings: ScanFinding[] = []
+  const overlaps = (start: number, end: number) => findings.some((finding) => start < finding.end && end > finding.start)
+
+  const add = (kind: FindingKind, start: number, value: string) => {
+    const end = start + value.length
+    if (!config.detectors[kind] || overlaps(start, end)) return
+    findings.push({
+      kind,
+      label: config.detectors[kind].label,
+      excerpt: kind === 'banned_phrase' ? value : maskValue(value),
+      start,
+      end,
+      source,
+    })
+  }
+
+  for (const [kind, pattern] of PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      if (kind === 'credit_card' && !passesLuhn(match[0])) continue
+      add(kind, match.index, match[0])
+    }
+  }
+
+  const lowerText = text.toLowerCase()
+  for (const phrase of config.banned_phrases) {
+    const needle = phrase.toLowerCase()
+    if (!needle) continue
+    for (let index = lowerText.indexOf(needle); index !== -1; index = lowerText.indexOf(needle, index + needle.length)) {
+      add('banned_phrase', index, text.slice(index, index + needle.length))
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Scan every step action of a Worker plan
+ */
+export function scanPlan(plan: WorkerPlan, config: ContentScannerConfig = CONTENT_SCANNER_CONFIG): ScanFinding[] {
+  return plan.steps.flatMap((step) =>
+    scanText(step.action || '', 'plan', config).map((finding) => ({ ...finding, step_number: step.step_number }))
+  )
+}
+
+/**
+ * Replace redactable findings with placeholders such as `[REDACTED:EMAIL]`
+ *
+ * `findings` must come from scanning this same text.
+ */
+export function redactText(
+  text: string,
+  findings: ScanFinding[],
+  config: ContentScannerConfig = CONTENT_SCANNER_CONFIG
+): string {
+  return findings
+    .filter((finding) => config.detectors[finding.kind]?.redact)
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (redacted, finding) =>
+        `${redacted.slice(0, finding.start)}[REDACTED:${finding.kind.toUpperCase()}]${redacted.slice(finding.end)}`,
+      text
+    )
+}
+
+/**
+ * Whether any finding would be removed by redactText
+ */
+export function hasRedactableFindings(
+  findings: ScanFinding[],
+  config: ContentScannerConfig = CONTENT_SCANNER_CONFIG
+): boolean {
+  return findings.some((finding) => config.detectors[finding.kind]?.redact)
+}
+
+/**
+ * Score floors for the decision engine: the highest floor per dimension,
+ * naming every finding type that set one
+ */
+export function getScanFloors(
+  findings: ScanFinding[],
+  config: ContentScannerConfig = CONTENT_SCANNER_CONFIG
+): ScoreFloor[] {
+  const byDimension = new Map<RiskDimension, { min: number; labels: string[] }>()
+
+  for (const finding of findings) {
+    const floor = config.detectors[finding.kind]?.floor
+    if (!floor) continue
+
+    const entry = byDimension.get(floor.dimension) || { min: floor.min, labels: [] }
+    entry.min = Math.max(entry.min, floor.min)
+    if (!entry.labels.includes(finding.label)) entry.labels.push(finding.label)
+    byDimension.set(floor.dimension, entry)
+  }
+
+  return Array.from(byDimension.entries()).map(([dimension, { min, labels }]) => ({
+    dimension,
+    min,
+    reason: `Content scan: ${labels.join(', ')} found (${dimension} ≥ ${min})`,
+  }))
+}
+
+/**
+ * Where a finding was made, for display
+ */
+export function describeFindingLocation(finding: ScanFinding): string {
+  return finding.source === 'plan' ? `step ${finding.step_number}` : 'task'
+}
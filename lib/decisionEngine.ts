@@ -0,0 +1,469 @@
+/**
+ * Sentinel Decision Engine
+ *
+ * Pure verdict calculation for Sentinel risk scores. Has no React or
+ * Next.js dependencies so it can run in the browser, in API routes and in tests.
+ *
+ * Rules, thresholds and the clarification trigger come from the policy file
+ * (config/decision_policy.json, see lib/policyLoader.ts). Every rule whose
+ * conditions hold is reported; the most severe outcome among them is a floor
+ * for the threshold verdict.
+ *
+ * @example
+ * ```ts
+ * import { calculateVerdict, createDecisionPolicy } from '@/lib/decisionEngine'
+ *
+ * const verdict = calculateVerdict(sentinelResult.risk_scores, DEFAULT_DECISION_POLICY, { task, plan })
+ *
+ * // Quarterly re-weighting without touching the engine
+ * const policy = createDecisionPolicy({ weights: { financial: 0.2 } })
+ * const reweighted = calculateVerdict(sentinelResult.risk_scores, policy)
+ * ```
+ */
+
+import decisionPolicyConfig from '@/config/decision_policy.json'
+import { getDimensionWeights, RISK_SCORE_RANGE } from '@/lib/riskDimensions'
+import type { WorkerPlan } from '@/lib/assessment'
+
+// Types
+/** Dimension IDs come from the risk dimension registry (config/risk_dimensions.json) */
+export type RiskDimension = string
+
+export type RiskScores = Record<RiskDimension, number>
+
+export type VerdictType = 'APPROVE' | 'APPROVE_WITH_NOTICE' | 'ASK_FOR_CLARIFICATION' | 'MODIFY' | 'BLOCK'
+
+/** All verdict types, least to most severe */
+export const VERDICT_TYPES: VerdictType[] = ['APPROVE', 'APPROVE_WITH_NOTICE', 'ASK_FOR_CLARIFICATION', 'MODIFY', 'BLOCK']
+
+export type HumanDecisionStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'OVERRIDDEN'
+
+/**
+ * Final reviewer decision on a verdict that needed human approval
+ */
+export interface HumanDecision {
+  status: HumanDecisionStatus
+  reviewer?: string
+  justification?: string
+  decided_at?: string
+  /** Verdict the reviewer replaced the engine's verdict with */
+  override_verdict?: VerdictType
+}
+
+export interface Verdict {
+  type: VerdictType
+  confidence: number
+  weightedScore: number
+  triggeredRules: string[]
+  policyVersion?: string
+  humanDecision?: HumanDecision
+}
+
+/**
+ * A single score requirement, satisfied when `min <= scores[dimension] <= max`
+ *
+ * Dimensions missing from the scores read as 0.
+ */
+export interface ScoreCondition {
+  dimension: RiskDimension
+  min?: number
+  max?: number
+}
+
+/**
+ * Requirement on a single plan step; one step must satisfy every field
+ */
+export interface StepCondition {
+  action_tags?: string[]
+  /** Recipients named in the step action (see countRecipients) */
+  min_recipients?: number
+}
+
+/**
+ * Conditions of a policy rule; every group present must hold
+ *
+ * Scores must all match. The list groups match when any entry does,
+ * case-insensitively: `action_tags` against plan step tags, `external_systems`
+ * as substrings of the plan's external systems (`*` for any), and `keywords`
+ * as substrings of the task and step actions. Rules without score conditions
+ * are plan pre-checks and can be evaluated before the Sentinel runs.
+ */
+export interface PolicyRuleConditions {
+  scores?: ScoreCondition[]
+  action_tags?: string[]
+  external_systems?: string[]
+  keywords?: string[]
+  step?: StepCondition
+}
+
+export interface PolicyRule {
+  id: string
+  message: string
+  /** Minimum verdict when the rule matches */
+  outcome: VerdictType
+  /** Higher runs first, and wins between rules with the same outcome */
+  priority: number
+  when: PolicyRuleConditions
+  enabled?: boolean
+}
+
+export interface BlockThresholds {
+  scores: Partial<Record<RiskDimension, number>>
+  /** Dimensions whose threshold comes from a rule combining several conditions */
+  approximated: RiskDimension[]
+}
+
+export interface RuleMatch {
+  id: string
+  message: string
+  outcome: VerdictType
+  priority: number
+  /** Plan steps that satisfied the rule's step or action tag conditions */
+  steps?: number[]
+}
+
+/** What a verdict is calculated about, beyond its scores */
+export interface VerdictContext {
+  task?: string
+  plan?: WorkerPlan
+  /** Minimum scores set by deterministic checks, e.g. the content scanner */
+  floors?: ScoreFloor[]
+}
+
+/**
+ * Lower bound on a dimension score, with the reason reported when it applies
+ */
+export interface ScoreFloor {
+  dimension: RiskDimension
+  min: number
+  reason: string
+}
+
+/**
+ * Policy file format (config/decision_policy.json)
+ */
+export interface PolicyDocument {
+  version: string
+  thresholds: DecisionPolicy['thresholds']
+  clarification: DecisionPolicy['clarification']
+  rules: PolicyRule[]
+}
+
+export interface DecisionPolicy {
+  version: string
+  weights: Record<RiskDimension, number>
+  rules: PolicyRule[]
+  thresholds: {
+    /** Weighted score below this is APPROVE */
+    approve: number
+    /** Weighted score below this is APPROVE_WITH_NOTICE */
+    approveWithNotice: number
+    /** Weighted score below this is MODIFY, at or above it BLOCK */
+    modify: number
+  }
+  /** Asks for clarification once the score is past APPROVE_WITH_NOTICE */
+  clarification: ScoreCondition & { message: string }
+  /** Upper bound of a single dimension score, used to normalize confidence */
+  maxScore: number
+}
+
+export interface DecisionPolicyOverrides {
+  version?: string
+  weights?: Partial<Record<RiskDimension, number>>
+  rules?: PolicyRule[]
+  thresholds?: Partial<DecisionPolicy['thresholds']>
+  clarification?: Partial<DecisionPolicy['clarification']>
+  maxScore?: number
+}
+
+/**
+ * Decision policy from a policy document, weighted by the risk dimension registry
+ */
+export function createPolicyFromDocument(document: PolicyDocument): DecisionPolicy {
+  return {
+    version: document.version,
+    weights: getDimensionWeights(),
+    rules: document.rules,
+    thresholds: document.thresholds,
+    clarification: document.clarification,
+    maxScore: RISK_SCORE_RANGE.max,
+  }
+}
+
+export const DEFAULT_DECISION_POLICY: DecisionPolicy = createPolicyFromDocument(decisionPolicyConfig as PolicyDocument)
+
+/**
+ * Build a policy from the defaults with partial overrides applied
+ */
+export function createDecisionPolicy(
+  overrides: DecisionPolicyOverrides = {},
+  base: DecisionPolicy = DEFAULT_DECISION_POLICY
+): DecisionPolicy {
+  return {
+    version: overrides.version ?? base.version,
+    weights: { ...base.weights, ...overrides.weights },
+    rules: overrides.rules ?? base.rules,
+    thresholds: { ...base.thresholds, ...overrides.thresholds },
+    clarification: { ...base.clarification, ...overrides.clarification },
+    maxScore: overrides.maxScore ?? base.maxScore,
+  }
+}
+
+/**
+ * Weighted sum of all dimension scores
+ */
+export function calculateWeightedScore(
+  scores: RiskScores,
+  weights: Record<RiskDimension, number> = DEFAULT_DECISION_POLICY.weights
+): number {
+  return (Object.keys(weights) as RiskDimension[]).reduce(
+    (sum, dimension) => sum + (scores[dimension] ?? 0) * weights[dimension],
+    0
+  )
+}
+
+const meetsCondition = (scores: RiskScores, condition: ScoreCondition) => {
+  const score = scores[condition.dimension] ?? 0
+  return score >= (condition.min ?? -Infinity) && score <= (condition.max ?? Infinity)
+}
+
+const includesAny = (haystack: string[], needles: string[]) =>
+  needles.some((needle) => haystack.some((value) => value.includes(needle.toLowerCase())))
+
+const RECIPIENT_NOUN = '(?:recipient|customer|user|contact|subscriber|member|employee|client|address|people)(?:e?s)?'
+const ALL_RECIPIENTS = new RegExp(`\\b(?:all|every|entire)\\b[\\w\\s]{0,20}?\\b${RECIPIENT_NOUN}\\b`)
+const COUNTED_RECIPIENTS = new RegExp(`(\\d[\\d,]*)\\+?\\s+(?:[a-z-]+\\s+){0,2}${RECIPIENT_NOUN}\\b`, 'g')
+
+/**
+ * Recipients a step action names, e.g. "Email 5,000 customers" → 5000
+ *
+ * "all/every/entire customer(s)" counts as unbounded; no recipient phrase counts as 0.
+ */
+export function countRecipients(action: string): number {
+  const text = action.toLowerCase()
+  if (ALL_RECIPIENTS.test(text)) return Infinity
+
+  const counts = Array.from(text.matchAll(COUNTED_RECIPIENTS)).map((match) => Number(match[1].replace(/,/g, '')))
+  return counts.length > 0 ? Math.max(...counts) : 0
+}
+
+/**
+ * Step numbers a rule applies to, or null when the rule does not match
+ */
+function matchRule(rule: PolicyRule, scores: RiskScores, context: VerdictContext): number[] | null {
+  const { scores: scoreConditions, action_tags, external_systems, keywords, step } = rule.when || {}
+  const steps = context.plan?.steps || []
+  const hasTag = (tags: string[], actionTag: string) => tags.some((tag) => tag.toUpperCase() === (actionTag || '').toUpperCase())
+  let matchedSteps: number[] = []
+
+  if (scoreConditions && !scoreConditions.every((condition) => meetsCondition(scores, condition))) {
+    return null
+  }
+
+  if (action_tags && action_tags.length > 0) {
+    matchedSteps = steps.filter((planStep) => hasTag(action_tags, planStep.action_tag)).map((planStep) => planStep.step_number)
+    if (matchedSteps.length === 0) return null
+  }
+
+  if (step) {
+    const stepMatches = steps.filter(
+      (planStep) =>
+        (!step.action_tags?.length || hasTag(step.action_tags, planStep.action_tag)) &&
+        (step.min_recipients === undefined || countRecipients(planStep.action || '') > step.min_recipients)
+    )
+    if (stepMatches.length === 0) return null
+    matchedSteps = stepMatches.map((planStep) => planStep.step_number)
+  }
+
+  if (external_systems && external_systems.length > 0) {
+    const systems = (context.plan?.external_systems || []).map((system) => system.toLowerCase())
+    const anySystem = external_systems.includes('*') && systems.length > 0
+    if (!anySystem && !includesAny(systems, external_systems.filter((system) => system !== '*'))) return null
+  }
+
+  if (keywords && keywords.length > 0) {
+    const text = [context.task || '', ...steps.map((planStep) => planStep.action || '')].map((value) => value.toLowerCase())
+    if (!includesAny(text, keywords)) return null
+  }
+
+  return matchedSteps
+}
+
+/**
+ * Every enabled rule whose conditions hold, highest priority first
+ *
+ * Rules with no conditions never match.
+ */
+export function evaluatePolicyRules(
+  rules: PolicyRule[],
+  scores: RiskScores,
+  context: VerdictContext = {}
+): RuleMatch[] {
+  return rules
+    .filter((rule) => rule.enabled !== false && Object.keys(rule.when || {}).length > 0)
+    .map((rule) => ({ rule, steps: matchRule(rule, scores, context) }))
+    .filter(({ steps }) => steps !== null)
+    .sort((a, b) => b.rule.priority - a.rule.priority)
+    .map(({ rule: { id, message, outcome, priority }, steps }) => ({
+      id,
+      message,
+      outcome,
+      priority,
+      ...(steps.length > 0 && { steps }),
+    }))
+}
+
+/**
+ * Plan pre-checks: rules without score conditions, decidable before any
+ * Sentinel scores exist
+ */
+export function evaluatePlanChecks(policy: DecisionPolicy, context: VerdictContext): RuleMatch[] {
+  return evaluatePolicyRules(
+    policy.rules.filter((rule) => !rule.when?.scores?.length),
+    {},
+    context
+  )
+}
+
+/**
+ * Lowest score per dimension that takes part in an enabled BLOCK rule, for
+ * threshold overlays; dimensions no BLOCK rule scores are left out
+ *
+ * A rule that ANDs several conditions only blocks when all of them hold, so
+ * its minimums are an approximation; those dimensions are listed in `approximated`.
+ */
+export function getBlockThresholds(policy: DecisionPolicy = DEFAULT_DECISION_POLICY): BlockThresholds {
+  const scores: Partial<Record<RiskDimension, number>> = {}
+  const compound = new Set<RiskDimension>()
+
+  for (const rule of policy.rules) {
+    if (rule.enabled === false || rule.outcome !== 'BLOCK') continue
+    const conditions = rule.when?.scores || []
+    const otherConditions = Object.keys(rule.when || {}).filter((key) => key !== 'scores').length
+    const isCompound = conditions.length + otherConditions > 1
+
+    for (const condition of conditions) {
+      if (condition.min === undefined) continue
+      const current = scores[condition.dimension]
+      if (current !== undefined && current < condition.min) continue
+      // A standalone rule at the same minimum makes the threshold exact
+      if (current === undefined || current > condition.min || !isCompound) {
+        if (isCompound) compound.add(condition.dimension)
+        else compound.delete(condition.dimension)
+      }
+      scores[condition.dimension] = condition.min
+    }
+  }
+
+  return { scores, approximated: Array.from(compound) }
+}
+
+/**
+ * Triggered-rule text for a match, naming the steps it applies to
+ */
+export function describeRuleMatch(match: RuleMatch): string {
+  if (!match.steps?.length) return match.message
+  return `${match.message} (step${match.steps.length > 1 ? 's' : ''} ${match.steps.join(', ')})`
+}
+
+/**
+ * Verdict from the weighted score alone
+ */
+function thresholdVerdict(scores: RiskScores, policy: DecisionPolicy): Omit<Verdict, 'policyVersion'> {
+  const weightedScore = calculateWeightedScore(scores, policy.weights)
+
+  // Calculate confidence (inverse of weighted score normalized to percentage)
+  const confidence = Math.max(0, Math.min(100, 100 - (weightedScore / policy.maxScore) * 100))
+
+  const { thresholds, clarification } = policy
+  const verdict = (type: VerdictType, rule: string) => ({ type, confidence, weightedScore, triggeredRules: [rule] })
+
+  if (weightedScore < thresholds.approve) {
+    return verdict('APPROVE', `Weighted score < ${thresholds.approve.toFixed(1)}`)
+  }
+
+  if (weightedScore < thresholds.approveWithNotice) {
+    return verdict('APPROVE_WITH_NOTICE', `Weighted score < ${thresholds.approveWithNotice.toFixed(1)}`)
+  }
+
+  if (meetsCondition(scores, clarification)) {
+    return verdict('ASK_FOR_CLARIFICATION', clarification.message)
+  }
+
+  if (weightedScore < thresholds.modify) {
+    return verdict('MODIFY', `Weighted score < ${thresholds.modify.toFixed(1)}`)
+  }
+
+  return verdict('BLOCK', `Weighted score ≥ ${thresholds.modify.toFixed(1)}`)
+}
+
+/**
+ * Raise scores to their floors; scores already above a floor are kept
+ */
+export function applyScoreFloors(scores: RiskScores, floors: ScoreFloor[] = []): RiskScores {
+  const floored: RiskScores = { ...scores }
+  for (const floor of floors) {
+    floored[floor.dimension] = Math.max(floored[floor.dimension] ?? 0, floor.min)
+  }
+  return floored
+}
+
+/**
+ * Calculate the verdict for a set of risk scores
+ *
+ * Score floors from the context are applied first. The weighted score is compared against the policy thresholds, then every
+ * matching rule is reported. When a rule's outcome is more severe than the
+ * threshold verdict, the most severe such outcome (highest priority on ties)
+ * becomes the verdict with full confidence; otherwise the threshold verdict
+ * and its confidence stand.
+ */
+export function calculateVerdict(
+  scores: RiskScores,
+  policy: DecisionPolicy = DEFAULT_DECISION_POLICY,
+  context: VerdictContext = {}
+): Verdict {
+  const policyVersion = policy.version
+  const floors = (context.floors || []).filter((floor) => (scores[floor.dimension] ?? 0) < floor.min)
+  const flooredScores = applyScoreFloors(scores, floors)
+  const threshold = thresholdVerdict(flooredScores, policy)
+  const matches = evaluatePolicyRules(policy.rules, flooredScores, context)
+  const notes = [...matches.map(describeRuleMatch), ...floors.map((floor) => floor.reason)]
+
+  const decisive = matches.reduce<RuleMatch | undefined>(
+    (strongest, match) => (!strongest || isMoreSevere(match.outcome, strongest.outcome) ? match : strongest),
+    undefined
+  )
+
+  if (decisive && isMoreSevere(decisive.outcome, threshold.type)) {
+    return {
+      type: decisive.outcome,
+      confidence: 100,
+      weightedScore: threshold.weightedScore,
+      triggeredRules: [...notes, ...threshold.triggeredRules],
+      policyVersion,
+    }
+  }
+
+  return {
+    ...threshold,
+    triggeredRules: [...notes, ...threshold.triggeredRules],
+    policyVersion,
+  }
+}
+
+/**
+ * Whether verdict type `a` is more severe than `b`
+ */
+export function isMoreSevere(a: VerdictType, b: VerdictType): boolean {
+  return VERDICT_TYPES.indexOf(a) > VERDICT_TYPES.indexOf(b)
+}
+
+/**
+ * Raise a verdict to at least `floor`, recording why
+ *
+ * Verdicts already at or above the floor are returned unchanged.
+ */
+export function applyVerdictFloor(verdict: Verdict, floor: VerdictType, reason: string): Verdict {
+  if (!isMoreSevere(floor, verdict.type)) return verdict
+  return { ...verdict, type: floor, triggeredRules: [...verdict.triggeredRules, reason] }
+}
@@ -0,0 +1,241 @@
+/**
+ * Sentinel Ensemble
+ *
+ * Aggregates several Sentinel evaluations of the same plan into one result
+ * and flags inter-rater disagreement. Evaluators can be the same agent
+ * repeated or different Sentinel agents. Pure functions, safe on both client
+ * and server.
+ *
+ * Configuration (defaults for the UI and /api/assess):
+ * - `NEXT_PUBLIC_SENTINEL_ENSEMBLE_SIZE`: evaluations per plan (default: 1, at most MAX_ENSEMBLE_SIZE)
+ * - `NEXT_PUBLIC_SENTINEL_ENSEMBLE_STRATEGY`: max | mean | median (default: max)
+ * - `NEXT_PUBLIC_SENTINEL_ENSEMBLE_AGENTS`: comma-separated Sentinel agent IDs,
+ *   used in place of repeating the registry Sentinel
+ *
+ * @example
+ * ```ts
+ * const combined = combineSentinelResults(evaluations, 'median')
+ * const verdict = calculateEnsembleVerdict(combined, DEFAULT_DECISION_POLICY, { task, plan })
+ * ```
+ */
+
+import {
+  applyVerdictFloor,
+  calculateVerdict,
+  DEFAULT_DECISION_POLICY,
+  type DecisionPolicy,
+  type RiskDimension,
+  type RiskScores,
+  type Verdict,
+  type VerdictContext,
+} from '@/lib/decisionEngine'
+import { getDimensionLabel } from '@/lib/riskDimensions'
+import type { RiskExplanations, SentinelResult, StepRiskAssessment } from '@/lib/assessment'
+
+// Types
+export type EnsembleStrategy = 'max' | 'mean' | 'median'
+
+export const ENSEMBLE_STRATEGIES: EnsembleStrategy[] = ['max', 'mean', 'median']
+
+export interface EnsembleConfig {
+  /** Evaluations per plan when `agent_ids` is not set */
+  size: number
+  strategy: EnsembleStrategy
+  /** One evaluation per listed Sentinel agent */
+  agent_ids?: string[]
+}
+
+/** One evaluator's contribution to an ensemble */
+export interface SentinelEvaluation {
+  agent_id: string
+  session_id?: string
+  /** Already rolled up from step scores */
+  result: SentinelResult
+}
+
+export interface EnsembleSummary {
+  strategy: EnsembleStrategy
+  evaluations: { agent_id: string; session_id?: string; risk_scores: RiskScores }[]
+  /** Highest minus lowest score per dimension */
+  spread: RiskScores
+  /** Dimensions whose spread reached DISAGREEMENT_THRESHOLD */
+  disagreements: RiskDimension[]
+}
+
+/** Most Sentinel evaluations one assessment may run in parallel */
+export const MAX_ENSEMBLE_SIZE = 5
+
+/** Spread at which evaluators are considered to disagree on a dimension */
+export const DISAGREEMENT_THRESHOLD = Number(process.env.NEXT_PUBLIC_SENTINEL_DISAGREEMENT_THRESHOLD) || 2
+
+const isEnsembleStrategy = (value: string | undefined): value is EnsembleStrategy =>
+  ENSEMBLE_STRATEGIES.includes(value as EnsembleStrategy)
+
+export const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = {
+  size: Math.min(MAX_ENSEMBLE_SIZE, Math.max(1, Number(process.env.NEXT_PUBLIC_SENTINEL_ENSEMBLE_SIZE) || 1)),
+  strategy: isEnsembleStrategy(process.env.NEXT_PUBLIC_SENTINEL_ENSEMBLE_STRATEGY)
+    ? (process.env.NEXT_PUBLIC_SENTINEL_ENSEMBLE_STRATEGY as EnsembleStrategy)
+    : 'max',
+  agent_ids: (process.env.NEXT_PUBLIC_SENTINEL_ENSEMBLE_AGENTS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean),
+}
+
+/**
+ * Sentinel agent ID for each evaluation in the ensemble
+ */
+export function getEnsembleAgentIds(config: EnsembleConfig, defaultAgentId: string): string[] {
+  if (config.agent_ids && config.agent_ids.length > 0) return config.agent_ids
+  return Array.from({ length: Math.max(1, config.size) }, () => defaultAgentId)
+}
+
+/**
+ * Aggregate one dimension's scores; mean and median keep one decimal place
+ */
+export function aggregateScores(values: number[], strategy: EnsembleStrategy): number {
+  if (values.length === 0) return 0
+
+  const round = (value: number) => Math.round(value * 10) / 10
+
+  switch (strategy) {
+    case 'max':
+      return Math.max(...values)
+    case 'mean':
+      return round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b)
+      const middle = Math.floor(sorted.length / 2)
+      return round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2)
+    }
+    default:
+      throw new Error(`Unknown ensemble strategy: ${strategy}`)
+  }
+}
+
+/**
+ * Highest minus lowest score per dimension across score sets
+ */
+export function getScoreSpread(scoreSets: RiskScores[]): RiskScores {
+  const spread: RiskScores = {}
+  const dimensions = Array.from(new Set(scoreSets.flatMap((scores) => Object.keys(scores))))
+
+  for (const dimension of dimensions) {
+    const values = scoreSets.map((scores) => scores[dimension] ?? 0)
+    spread[dimension] = Math.max(...values) - Math.min(...values)
+  }
+  return spread
+}
+
+/**
+ * Aggregate score sets dimension by dimension
+ */
+function aggregateScoreSets(scoreSets: RiskScores[], strategy: EnsembleStrategy): RiskScores {
+  const aggregated: RiskScores = {}
+  const dimensions = Array.from(new Set(scoreSets.flatMap((scores) => Object.keys(scores))))
+
+  for (const dimension of dimensions) {
+    aggregated[dimension] = aggregateScores(
+      scoreSets.map((scores) => scores[dimension] ?? 0),
+      strategy
+    )
+  }
+  return aggregated
+}
+
+/**
+ * Explanation from the evaluator whose score is closest to the aggregate
+ */
+function pickExplanation(
+  sources: { risk_scores: RiskScores; risk_explanations?: Partial<RiskExplanations> }[],
+  dimension: RiskDimension,
+  score: number
+): string | undefined {
+  const candidates = sources.filter((source) => source.risk_explanations?.[dimension])
+  if (candidates.length === 0) return undefined
+
+  const distance = (source: (typeof candidates)[number]) => Math.abs((source.risk_scores[dimension] ?? 0) - score)
+  return candidates.reduce((best, source) => (distance(source) < distance(best) ? source : best)).risk_explanations[dimension]
+}
+
+function aggregateSteps(results: SentinelResult[], strategy: EnsembleStrategy): StepRiskAssessment[] | undefined {
+  const stepNumbers = Array.from(
+    new Set(results.flatMap((result) => (result.step_assessments || []).map((step) => step.step_number)))
+  ).sort((a, b) => a - b)
+  if (stepNumbers.length === 0) return undefined
+
+  return stepNumbers.map((step_number) => {
+    const steps = results
+      .map((result) => result.step_assessments?.find((step) => step.step_number === step_number))
+      .filter(Boolean)
+    const risk_scores = aggregateScoreSets(steps.map((step) => step.risk_scores), strategy)
+
+    const risk_explanations: Partial<RiskExplanations> = {}
+    for (const dimension of Object.keys(risk_scores)) {
+      const explanation = pickExplanation(steps, dimension, risk_scores[dimension])
+      if (explanation) risk_explanations[dimension] = explanation
+    }
+
+    return { step_number, risk_scores, risk_explanations }
+  })
+}
+
+/**
+ * Combine Sentinel evaluations into a single result carrying an ensemble summary
+ *
+ * A single evaluation is returned unchanged.
+ */
+export function combineSentinelResults(
+  evaluations: SentinelEvaluation[],
+  strategy: EnsembleStrategy,
+  threshold: number = DISAGREEMENT_THRESHOLD
+): SentinelResult {
+  if (evaluations.length === 1) return evaluations[0].result
+
+  const results = evaluations.map((evaluation) => evaluation.result)
+  const risk_scores = aggregateScoreSets(results.map((result) => result.risk_scores), strategy)
+
+  const risk_explanations: RiskExplanations = {}
+  for (const dimension of Object.keys(risk_scores)) {
+    const explanation = pickExplanation(results, dimension, risk_scores[dimension])
+    if (explanation) risk_explanations[dimension] = explanation
+  }
+
+  const spread = getScoreSpread(results.map((result) => result.risk_scores))
+
+  return {
+    risk_scores,
+    risk_explanations,
+    step_assessments: aggregateSteps(results, strategy),
+    ensemble: {
+      strategy,
+      evaluations: evaluations.map(({ agent_id, session_id, result }) => ({
+        agent_id,
+        session_id,
+        risk_scores: result.risk_scores,
+      })),
+      spread,
+      disagreements: Object.keys(spread).filter((dimension) => spread[dimension] >= threshold),
+    },
+  }
+}
+
+/**
+ * Decision Engine verdict, raised to at least ASK_FOR_CLARIFICATION when the
+ * ensemble's evaluators disagree
+ */
+export function calculateEnsembleVerdict(
+  result: SentinelResult,
+  policy: DecisionPolicy = DEFAULT_DECISION_POLICY,
+  context: VerdictContext = {}
+): Verdict {
+  const verdict = calculateVerdict(result.risk_scores, policy, context)
+  const disagreements = result.ensemble?.disagreements || []
+  if (disagreements.length === 0) return verdict
+
+  return applyVerdictFloor(
+    verdict,
+    'ASK_FOR_CLARIFICATION',
+    `Sentinel disagreement (spread ≥ ${DISAGREEMENT_THRESHOLD}): ${disagreements.map((dimension) => getDimensionLabel(dimension)).join(', ')}`
+  )
+}
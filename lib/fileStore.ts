@@ -0,0 +1,80 @@
+/**
+ * File Store
+ *
+ * Minimal JSON-lines persistence for server routes. Each record is one line,
+ * appended in order, so the files double as an audit trail. Whole-file JSON
+ * documents are used for state that is overwritten, such as workflow runs.
+ * Data lives under SENTINEL_DATA_DIR (default: ./.data).
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+const DATA_DIR = process.env.SENTINEL_DATA_DIR || path.join(process.cwd(), '.data')
+
+/**
+ * Absolute path of a file inside the data directory
+ */
+export function dataPath(fileName: string): string {
+  return path.join(DATA_DIR, fileName)
+}
+
+/**
+ * Read every record of a JSON-lines file, oldest first
+ */
+export async function readJsonLines<T>(fileName: string): Promise<T[]> {
+  let content: string
+  try {
+    content = await fs.readFile(dataPath(fileName), 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  return content
+    .split('\n')
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line) as T)
+}
+
+/**
+ * Raw non-empty lines of a JSON-lines file, for checks that must survive malformed records
+ */
+export async function readLines(fileName: string): Promise<string[]> {
+  try {
+    const content = await fs.readFile(dataPath(fileName), 'utf8')
+    return content.split('\n').filter((line) => line.trim().length > 0)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+/**
+ * Append a record to a JSON-lines file
+ */
+export async function appendJsonLine<T>(fileName: string, record: T): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  await fs.appendFile(dataPath(fileName), JSON.stringify(record) + '\n', 'utf8')
+}
+
+/**
+ * Read a JSON document, or null if it does not exist
+ */
+export async function readJsonFile<T>(fileName: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(dataPath(fileName), 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+/**
+ * Write a JSON document, replacing any previous version
+ */
+export async function writeJsonFile<T>(fileName: string, data: T): Promise<void> {
+  const filePath = dataPath(fileName)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, JSON.stringify(data, null, 2) + '\n', 'utf8')
+}
@@ -0,0 +1,81 @@
+/**
+ * Partial JSON Parser
+ *
+ * Parses the complete part of a JSON document that is still streaming in, so
+ * plan steps and scores can render before the agent finishes. Values that are
+ * cut off mid-way are dropped rather than guessed.
+ *
+ * @example
+ * ```ts
+ * parsePartialJson('{"plan": {"steps": [{"step_number": 1}, {"step_nu')
+ * // { plan: { steps: [{ step_number: 1 }] } }
+ * ```
+ */
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' }
+
+/** Cut points tried from the end before giving up */
+const MAX_CUT_ATTEMPTS = 25
+
+interface CutPoint {
+  index: number
+  stack: string[]
+}
+
+const close = (text: string, stack: string[]) => text + stack.map((open) => CLOSERS[open]).reverse().join('')
+
+/**
+ * Parse the longest complete prefix of a JSON object or array, or null if none
+ */
+export function parsePartialJson(text: string): unknown | null {
+  const start = text.search(/[{[]/)
+  if (start === -1) return null
+
+  const body = text.slice(start)
+  const stack: string[] = []
+  const cuts: CutPoint[] = []
+  let inString = false
+  let escapeNext = false
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i]
+
+    if (inString) {
+      if (escapeNext) escapeNext = false
+      else if (ch === '\\') escapeNext = true
+      else if (ch === '"') inString = false
+      continue
+    }
+
+    if (ch === '"') {
+      inString = true
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch)
+      cuts.push({ index: i + 1, stack: [...stack] })
+    } else if (ch === '}' || ch === ']') {
+      stack.pop()
+      if (stack.length === 0) {
+        // First complete document wins, trailing prose is ignored
+        return tryParse(body.slice(0, i + 1))
+      }
+      cuts.push({ index: i + 1, stack: [...stack] })
+    } else if (ch === ',') {
+      cuts.push({ index: i, stack: [...stack] })
+    }
+  }
+
+  for (const cut of cuts.slice(-MAX_CUT_ATTEMPTS).reverse()) {
+    const parsed = tryParse(close(body.slice(0, cut.index), cut.stack))
+    if (parsed !== null) return parsed
+  }
+
+  return null
+}
+
+function tryParse(text: string): unknown | null {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Plan Diff
+ *
+ * Structural comparison of two Worker plans: steps, action tags,
+ * resources and external systems.
+ */
+
+import type { PlanStep, WorkerPlan } from '@/lib/assessment'
+
+// Types
+export type StepChangeKind = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export type StepField = 'action' | 'action_tag' | 'concerns'
+
+export interface StepChange {
+  kind: StepChangeKind
+  before?: PlanStep
+  after?: PlanStep
+  changedFields: StepField[]
+}
+
+export interface ListDiff {
+  added: string[]
+  removed: string[]
+  unchanged: string[]
+}
+
+export interface PlanDiff {
+  steps: StepChange[]
+  resources_needed: ListDiff
+  external_systems: ListDiff
+  hasChanges: boolean
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * Compare two string lists, ignoring case and whitespace differences
+ */
+export function diffLists(before: string[] = [], after: string[] = []): ListDiff {
+  const beforeKeys = new Set(before.map(normalize))
+  const afterKeys = new Set(after.map(normalize))
+
+  return {
+    added: after.filter((item) => !beforeKeys.has(normalize(item))),
+    removed: before.filter((item) => !afterKeys.has(normalize(item))),
+    unchanged: after.filter((item) => beforeKeys.has(normalize(item))),
+  }
+}
+
+const changedFields = (before: PlanStep, after: PlanStep): StepField[] => {
+  const fields: StepField[] = []
+  if (normalize(before.action) !== normalize(after.action)) fields.push('action')
+  if (before.action_tag !== after.action_tag) fields.push('action_tag')
+  const concerns = diffLists(before.concerns, after.concerns)
+  if (concerns.added.length > 0 || concerns.removed.length > 0) fields.push('concerns')
+  return fields
+}
+
+/**
+ * Compare two plans step by step
+ *
+ * Steps with the same action text are matched first, wherever they moved to.
+ * Remaining steps are paired by step number and reported as changed; anything
+ * left over is added or removed.
+ */
+export function diffPlans(before: WorkerPlan, after: WorkerPlan): PlanDiff {
+  const beforeSteps = before?.steps || []
+  const afterSteps = after?.steps || []
+  const matchedBefore = new Map<PlanStep, PlanStep>()
+  const matchedAfter = new Set<PlanStep>()
+
+  // Same action text, possibly renumbered
+  for (const afterStep of afterSteps) {
+    const match = beforeSteps.find(
+      (step) => !matchedBefore.has(step) && normalize(step.action) === normalize(afterStep.action)
+    )
+    if (match) {
+      matchedBefore.set(match, afterStep)
+      matchedAfter.add(afterStep)
+    }
+  }
+
+  // Rewritten steps keep their position
+  for (const afterStep of afterSteps) {
+    if (matchedAfter.has(afterStep)) continue
+    const match = beforeSteps.find((step) => !matchedBefore.has(step) && step.step_number === afterStep.step_number)
+    if (match) {
+      matchedBefore.set(match, afterStep)
+      matchedAfter.add(afterStep)
+    }
+  }
+
+  const steps: StepChange[] = afterSteps.map((afterStep) => {
+    const beforeStep = beforeSteps.find((step) => matchedBefore.get(step) === afterStep)
+    if (!beforeStep) return { kind: 'added', after: afterStep, changedFields: [] }
+
+    const fields = changedFields(beforeStep, afterStep)
+    return {
+      kind: fields.length > 0 ? 'changed' : 'unchanged',
+      before: beforeStep,
+      after: afterStep,
+      changedFields: fields,
+    }
+  })
+
+  beforeSteps
+    .filter((step) => !matchedBefore.has(step))
+    .forEach((step) => steps.push({ kind: 'removed', before: step, changedFields: [] }))
+
+  const resources_needed = diffLists(before?.resources_needed, after?.resources_needed)
+  const external_systems = diffLists(before?.external_systems, after?.external_systems)
+
+  return {
+    steps,
+    resources_needed,
+    external_systems,
+    hasChanges:
+      steps.some((change) => change.kind !== 'unchanged') ||
+      [resources_needed, external_systems].some((diff) => diff.added.length > 0 || diff.removed.length > 0),
+  }
+}
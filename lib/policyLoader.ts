@@ -0,0 +1,186 @@
+/**
+ * Policy Loader
+ *
+ * Parses and validates decision policy documents: the rules, thresholds and
+ * clarification trigger the decision engine applies. The active policy is
+ * config/decision_policy.json; the policy editor (/policy) uses this module
+ * to check drafts before they are committed.
+ *
+ * @example
+ * ```ts
+ * import { parsePolicyDocument } from '@/lib/policyLoader'
+ *
+ * const loaded = parsePolicyDocument(draftText)
+ * if (loaded.success) calculateVerdict(scores, loaded.policy, { task, plan })
+ * ```
+ */
+
+import decisionPolicyConfig from '@/config/decision_policy.json'
+import { ACTION_TAGS } from '@/lib/assessment'
+import { RISK_DIMENSIONS } from '@/lib/riskDimensions'
+import {
+  createPolicyFromDocument,
+  VERDICT_TYPES,
+  type DecisionPolicy,
+  type PolicyDocument,
+  type ScoreCondition,
+} from '@/lib/decisionEngine'
+
+// Types
+export interface PolicyLoadResult {
+  success: boolean
+  document?: PolicyDocument
+  policy?: DecisionPolicy
+  errors: string[]
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+function validateScoreCondition(condition: ScoreCondition, where: string): string[] {
+  const errors: string[] = []
+  if (!RISK_DIMENSIONS.includes(condition?.dimension)) {
+    errors.push(`${where}: unknown dimension "${condition?.dimension}"`)
+  }
+  if (condition?.min === undefined && condition?.max === undefined) {
+    errors.push(`${where}: needs min or max`)
+  }
+  if (condition?.min !== undefined && !isNumber(condition.min)) errors.push(`${where}: min must be a number`)
+  if (condition?.max !== undefined && !isNumber(condition.max)) errors.push(`${where}: max must be a number`)
+  return errors
+}
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every((entry) => typeof entry === 'string')
+
+/** Condition keys a rule's `when` and `when.step` may use; anything else would be silently ignored */
+const WHEN_KEYS = ['scores', 'action_tags', 'external_systems', 'keywords', 'step']
+const STEP_KEYS = ['action_tags', 'min_recipients']
+
+/**
+ * Validate a policy document, returning error messages if invalid
+ */
+export function validatePolicyDocument(document: PolicyDocument): string[] {
+  const errors: string[] = []
+  if (!document || typeof document !== 'object') return ['Policy must be a JSON object']
+
+  if (typeof document.version !== 'string' || !document.version.trim()) {
+    errors.push('version is required')
+  }
+
+  const thresholds = document.thresholds || ({} as PolicyDocument['thresholds'])
+  if (![thresholds.approve, thresholds.approveWithNotice, thresholds.modify].every(isNumber)) {
+    errors.push('thresholds.approve, thresholds.approveWithNotice and thresholds.modify must be numbers')
+  } else if (!(thresholds.approve <= thresholds.approveWithNotice && thresholds.approveWithNotice <= thresholds.modify)) {
+    errors.push('thresholds must satisfy approve ≤ approveWithNotice ≤ modify')
+  }
+
+  if (!document.clarification) {
+    errors.push('clarification is required')
+  } else {
+    errors.push(...validateScoreCondition(document.clarification, 'clarification'))
+    if (!document.clarification.message) errors.push('clarification.message is required')
+  }
+
+  if (!Array.isArray(document.rules)) {
+    errors.push('rules must be an array')
+    return errors
+  }
+
+  const seen = new Set<string>()
+  document.rules.forEach((rule, index) => {
+    const where = `rules[${index}]${rule?.id ? ` (${rule.id})` : ''}`
+
+    if (!rule?.id) errors.push(`${where}: id is required`)
+    else if (seen.has(rule.id)) errors.push(`${where}: id is used more than once`)
+    seen.add(rule?.id)
+
+    if (!rule?.message) errors.push(`${where}: message is required`)
+    if (!VERDICT_TYPES.includes(rule?.outcome)) {
+      errors.push(`${where}: outcome must be one of ${VERDICT_TYPES.join(', ')}`)
+    }
+    if (!isNumber(rule?.priority)) errors.push(`${where}: priority must be a number`)
+
+    // A rule with no effective condition matches every plan
+    const when = rule?.when
+    if (!when || typeof when !== 'object' || Array.isArray(when) || Object.keys(when).length === 0) {
+      errors.push(`${where}: when needs at least one condition`)
+      return
+    }
+
+    const unknownKeys = Object.keys(when).filter((key) => !WHEN_KEYS.includes(key))
+    if (unknownKeys.length > 0) {
+      errors.push(`${where}: unknown when conditions ${unknownKeys.join(', ')}`)
+    }
+
+    if (when.scores !== undefined) {
+      if (!Array.isArray(when.scores) || when.scores.length === 0) errors.push(`${where}: when.scores must be a non-empty array`)
+      else when.scores.forEach((condition, i) => errors.push(...validateScoreCondition(condition, `${where} when.scores[${i}]`)))
+    }
+
+    for (const key of ['action_tags', 'external_systems', 'keywords'] as const) {
+      if (when[key] !== undefined && (!isStringList(when[key]) || when[key].length === 0)) {
+        errors.push(`${where}: when.${key} must be a non-empty list of strings`)
+      }
+    }
+
+    if (when.step !== undefined) {
+      if (!when.step || typeof when.step !== 'object' || Object.keys(when.step).length === 0) {
+        errors.push(`${where}: when.step needs action_tags or min_recipients`)
+      } else {
+        const unknownStepKeys = Object.keys(when.step).filter((key) => !STEP_KEYS.includes(key))
+        if (unknownStepKeys.length > 0) {
+          errors.push(`${where}: unknown when.step conditions ${unknownStepKeys.join(', ')}`)
+        }
+        if (when.step.action_tags !== undefined && (!isStringList(when.step.action_tags) || when.step.action_tags.length === 0)) {
+          errors.push(`${where}: when.step.action_tags must be a non-empty list of strings`)
+        }
+        if (when.step.min_recipients !== undefined && !(isNumber(when.step.min_recipients) && when.step.min_recipients >= 0)) {
+          errors.push(`${where}: when.step.min_recipients must be a non-negative number`)
+        }
+      }
+    }
+
+    const unknownTags = [...(when.action_tags || []), ...(when.step?.action_tags || [])].filter(
+      (tag) => !(ACTION_TAGS as readonly string[]).includes(String(tag).toUpperCase())
+    )
+    if (unknownTags.length > 0) {
+      errors.push(`${where}: unknown action tags ${unknownTags.join(', ')}`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Load a policy document, reporting every validation error
+ */
+export function loadPolicyDocument(document: PolicyDocument): PolicyLoadResult {
+  const errors = validatePolicyDocument(document)
+  if (errors.length > 0) return { success: false, errors }
+  return { success: true, document, policy: createPolicyFromDocument(document), errors }
+}
+
+/**
+ * Parse and load a policy from JSON text
+ */
+export function parsePolicyDocument(text: string): PolicyLoadResult {
+  let document: PolicyDocument
+  try {
+    document = JSON.parse(text)
+  } catch (error) {
+    return { success: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`] }
+  }
+  return loadPolicyDocument(document)
+}
+
+/**
+ * The shipped policy document, failing fast when it is invalid
+ */
+function loadDefaultPolicyDocument(): PolicyDocument {
+  const loaded = loadPolicyDocument(decisionPolicyConfig as PolicyDocument)
+  if (!loaded.success) {
+    throw new Error(`Invalid decision policy: ${loaded.errors.join('; ')}`)
+  }
+  return loaded.document
+}
+
+export const DEFAULT_POLICY_DOCUMENT: PolicyDocument = loadDefaultPolicyDocument()
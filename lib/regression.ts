@@ -0,0 +1,217 @@
+/**
+ * Regression Suite
+ *
+ * Golden tasks with the verdict Sentinel is expected to reach, and optional
+ * score ranges per risk dimension, so prompt or model changes that loosen
+ * governance show up as failures. The shipped set is config/golden_set.json.
+ *
+ * Runs are executed server-side by /api/regression (see
+ * lib/regressionRunner.ts) from the /regression page or
+ * `node scripts/regression.mjs`. Each run reports per-dimension score drift
+ * against the previous run on the same provider.
+ *
+ * @example
+ * ```ts
+ * const errors = validateGoldenSet(draft)
+ * const failures = checkGoldenCase(goldenCase, verdict.type, sentinel.risk_scores)
+ * ```
+ */
+
+import goldenSetConfig from '@/config/golden_set.json'
+import { RISK_DIMENSIONS } from '@/lib/riskDimensions'
+import { MAX_BATCH_TASKS } from '@/lib/batch'
+import { VERDICT_TYPES, type RiskDimension, type RiskScores, type VerdictType } from '@/lib/decisionEngine'
+import type { ProviderName } from '@/lib/agentProviders'
+
+// Types
+export interface ScoreRange {
+  min?: number
+  max?: number
+}
+
+export interface GoldenCase {
+  id: string
+  task: string
+  expected_verdict: VerdictType
+  expected_scores?: Partial<Record<RiskDimension, ScoreRange>>
+}
+
+export interface GoldenSet {
+  version: string
+  cases: GoldenCase[]
+}
+
+export type ScoreDrift = Partial<Record<RiskDimension, number>>
+
+export interface GoldenCaseResult {
+  id: string
+  expected_verdict: VerdictType
+  verdict?: VerdictType
+  weighted_score?: number
+  risk_scores?: RiskScores
+  passed: boolean
+  /** Why the case failed: verdict mismatch, scores out of range, or a pipeline error */
+  failures: string[]
+  /** Score change per dimension since the previous run */
+  drift?: ScoreDrift
+}
+
+export interface RegressionRun {
+  id: string
+  golden_set_version: string
+  /** Provider forced for the run; unset means the env-configured agents */
+  provider?: ProviderName
+  passed: number
+  failed: number
+  results: GoldenCaseResult[]
+  previous_run_id?: string
+  /** Mean score change per dimension over cases present in both runs */
+  drift: ScoreDrift
+  started_at: string
+  completed_at: string
+}
+
+export interface RegressionResponse {
+  success: boolean
+  run?: RegressionRun
+  runs?: RegressionRun[]
+  error?: string
+  errors?: string[]
+}
+
+export const GOLDEN_SET = goldenSetConfig as GoldenSet
+
+/**
+ * Validate a golden set, returning error messages if invalid
+ */
+export function validateGoldenSet(set: GoldenSet): string[] {
+  if (!set || typeof set !== 'object') return ['Golden set must be a JSON object']
+  if (!Array.isArray(set.cases) || set.cases.length === 0) return ['cases must be a non-empty array']
+  // Every case runs the full agent pipeline, so sets are capped like batch files
+  if (set.cases.length > MAX_BATCH_TASKS) return [`cases has ${set.cases.length} entries; the limit is ${MAX_BATCH_TASKS}`]
+
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  set.cases.forEach((goldenCase, index) => {
+    const where = `cases[${index}]${goldenCase?.id ? ` (${goldenCase.id})` : ''}`
+
+    if (!goldenCase?.id) errors.push(`${where}: id is required`)
+    else if (seen.has(goldenCase.id)) errors.push(`${where}: id is used more than once`)
+    seen.add(goldenCase?.id)
+
+    if (typeof goldenCase?.task !== 'string' || !goldenCase.task.trim()) errors.push(`${where}: task is required`)
+    if (!VERDICT_TYPES.includes(goldenCase?.expected_verdict)) {
+      errors.push(`${where}: expected_verdict must be one of ${VERDICT_TYPES.join(', ')}`)
+    }
+
+    const expectedScores = goldenCase?.expected_scores
+    if (expectedScores !== undefined && (typeof expectedScores !== 'object' || expectedScores === null || Array.isArray(expectedScores))) {
+      errors.push(`${where}: expected_scores must be an object`)
+      return
+    }
+
+    for (const [dimension, range] of Object.entries(expectedScores || {})) {
+      if (!RISK_DIMENSIONS.includes(dimension as RiskDimension)) {
+        errors.push(`${where}: unknown dimension "${dimension}"`)
+      } else if (range?.min === undefined && range?.max === undefined) {
+        errors.push(`${where}: expected_scores.${dimension} needs min or max`)
+      } else if ([range.min, range.max].some((bound) => bound !== undefined && !(typeof bound === 'number' && Number.isFinite(bound)))) {
+        errors.push(`${where}: expected_scores.${dimension} min and max must be numbers`)
+      }
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Failures for one case; empty when the verdict and every score range match
+ */
+export function checkGoldenCase(goldenCase: GoldenCase, verdict: VerdictType, scores: RiskScores): string[] {
+  const failures: string[] = []
+
+  if (verdict !== goldenCase.expected_verdict) {
+    failures.push(`Expected ${goldenCase.expected_verdict}, got ${verdict}`)
+  }
+
+  for (const [dimension, range] of Object.entries(goldenCase.expected_scores || {})) {
+    const score = scores[dimension] ?? 0
+    if (range.min !== undefined && score < range.min) failures.push(`${dimension} ${score} is below ${range.min}`)
+    if (range.max !== undefined && score > range.max) failures.push(`${dimension} ${score} is above ${range.max}`)
+  }
+
+  return failures
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+/**
+ * Attach per-case drift against a previous run and return the mean drift per dimension
+ */
+export function applyScoreDrift(results: GoldenCaseResult[], previous?: RegressionRun): ScoreDrift {
+  if (!previous) return {}
+
+  const previousScores = new Map(previous.results.map((result) => [result.id, result.risk_scores]))
+  const totals: Record<string, number[]> = {}
+
+  for (const result of results) {
+    const before = previousScores.get(result.id)
+    if (!before || !result.risk_scores) continue
+
+    result.drift = {}
+    for (const dimension of RISK_DIMENSIONS) {
+      const change = (result.risk_scores[dimension] ?? 0) - (before[dimension] ?? 0)
+      result.drift[dimension] = change
+      totals[dimension] = [...(totals[dimension] || []), change]
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(totals).map(([dimension, changes]) => [
+      dimension,
+      round(changes.reduce((sum, change) => sum + change, 0) / changes.length),
+    ])
+  )
+}
+
+/**
+ * Run the golden set via /api/regression; omit `golden_set` to use the shipped one
+ */
+export async function runRegressionSuite(
+  options: { provider?: ProviderName; golden_set?: GoldenSet } = {}
+): Promise<RegressionResponse> {
+  try {
+    const response = await fetch('/api/regression', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(options),
+    })
+
+    const data = await response.json()
+    return data
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+/**
+ * Recent regression runs, newest first
+ */
+export async function fetchRegressionRuns(limit = 10): Promise<RegressionResponse> {
+  try {
+    const response = await fetch(`/api/regression?limit=${limit}`)
+    const data = await response.json()
+    return data
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Regression Runner
+ *
+ * Executes a golden set through the assessment pipeline and stores the run.
+ * Results are not saved to assessment history or the approval queue; they
+ * live in regression_runs.jsonl, which also supplies the baseline for drift.
+ */
+
+import { appendJsonLine, readJsonLines } from '@/lib/fileStore'
+import { runAssessment } from '@/lib/assessmentPipeline'
+import { mapWithConcurrency, DEFAULT_BATCH_CONCURRENCY } from '@/lib/batchRunner'
+import { generateUUID } from '@/lib/utils'
+import type { ProviderName } from '@/lib/agentProviders'
+import {
+  applyScoreDrift,
+  checkGoldenCase,
+  type GoldenCase,
+  type GoldenCaseResult,
+  type GoldenSet,
+  type RegressionRun,
+} from '@/lib/regression'
+
+const REGRESSION_RUNS_FILE = 'regression_runs.jsonl'
+
+// Types
+export interface RegressionOptions {
+  /** Forces every agent call onto one provider, e.g. `mock` */
+  provider?: ProviderName
+  concurrency?: number
+}
+
+/**
+ * Stored runs, newest first
+ */
+export async function listRegressionRuns(limit?: number): Promise<RegressionRun[]> {
+  const runs = (await readJsonLines<RegressionRun>(REGRESSION_RUNS_FILE)).reverse()
+  return limit ? runs.slice(0, limit) : runs
+}
+
+async function runGoldenCase(goldenCase: GoldenCase, options: RegressionOptions): Promise<GoldenCaseResult> {
+  const failed = (failure: string): GoldenCaseResult => ({
+    id: goldenCase.id,
+    expected_verdict: goldenCase.expected_verdict,
+    passed: false,
+    failures: [failure],
+  })
+
+  try {
+    const outcome = await runAssessment(goldenCase.task, { provider: options.provider })
+    if (!outcome.success) {
+      return failed(`${outcome.stage || 'pipeline'} failed: ${outcome.error}`)
+    }
+
+    const { verdict, sentinel } = outcome.assessment
+    const failures = checkGoldenCase(goldenCase, verdict.type, sentinel.risk_scores)
+
+    return {
+      id: goldenCase.id,
+      expected_verdict: goldenCase.expected_verdict,
+      verdict: verdict.type,
+      weighted_score: verdict.weightedScore,
+      risk_scores: sentinel.risk_scores,
+      passed: failures.length === 0,
+      failures,
+    }
+  } catch (error) {
+    // One unreachable provider must not discard the rest of the run
+    return failed(`pipeline error: ${error instanceof Error ? error.message : 'Server error'}`)
+  }
+}
+
+/**
+ * Run every case, compare with the previous run on the same provider, and store the run
+ */
+export async function runRegression(set: GoldenSet, options: RegressionOptions = {}): Promise<RegressionRun> {
+  const startedAt = new Date().toISOString()
+  const results = await mapWithConcurrency(set.cases, options.concurrency || DEFAULT_BATCH_CONCURRENCY, (goldenCase) =>
+    runGoldenCase(goldenCase, options)
+  )
+
+  const previous = (await listRegressionRuns()).find((run) => run.provider === options.provider)
+  const passed = results.filter((result) => result.passed).length
+
+  const run: RegressionRun = {
+    id: generateUUID(),
+    golden_set_version: set.version,
+    provider: options.provider,
+    passed,
+    failed: results.length - passed,
+    results,
+    previous_run_id: previous?.id,
+    drift: applyScoreDrift(results, previous),
+    started_at: startedAt,
+    completed_at: new Date().toISOString(),
+  }
+
+  await appendJsonLine(REGRESSION_RUNS_FILE, run)
+  return run
+}
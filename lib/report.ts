@@ -0,0 +1,290 @@
+/**
+ * Assessment Reports
+ *
+ * Renders a stored assessment as a self-contained report — task, plan steps,
+ * risk scores with explanations, verdict, confidence and policy version — in
+ * Markdown, JSON or printable HTML. Signing and verification live server-side
+ * in lib/reportSigning.ts; this module only builds and renders the content
+ * that gets hashed.
+ *
+ * @example
+ * ```ts
+ * const report = buildAssessmentReport(record)
+ * const markdown = renderReportMarkdown(report)
+ * ```
+ */
+
+import { getDimensionLabel, RISK_DIMENSIONS } from '@/lib/riskDimensions'
+import { getRequiredAction } from '@/lib/sentinelStyles'
+import { describeFindingLocation } from '@/lib/contentScanner'
+import type { HumanDecision, VerdictType } from '@/lib/decisionEngine'
+import type { AssessmentAgents, AssessmentRecord, AssessmentSource, PlanStep } from '@/lib/assessment'
+
+// Types
+export type ReportFormat = 'md' | 'json' | 'html'
+
+export const REPORT_FORMATS: ReportFormat[] = ['md', 'json', 'html']
+
+export interface ReportRiskRow {
+  dimension: string
+  label: string
+  score: number
+  explanation: string
+}
+
+export interface AssessmentReport {
+  assessment_id: string
+  task: string
+  plan: {
+    steps: PlanStep[]
+    resources_needed: string[]
+    external_systems: string[]
+  }
+  risk: ReportRiskRow[]
+  verdict: VerdictType
+  confidence: number
+  weighted_score: number
+  triggered_rules: string[]
+  required_action: string
+  policy_version?: string
+  human_decision?: HumanDecision
+  /** Masked content scanner findings */
+  findings: { label: string; excerpt: string; location: string }[]
+  agents: AssessmentAgents
+  /** `client` when the plan and scores were posted by the browser rather than run on the server */
+  source?: AssessmentSource
+  assessed_at: string
+  generated_at: string
+}
+
+export interface ReportIntegrity {
+  /** `hmac-sha256` when REPORT_SIGNING_SECRET is set on the server */
+  algorithm: 'hmac-sha256' | 'sha256'
+  hash: string
+}
+
+/**
+ * Separates a Markdown or HTML report from its integrity trailer; the hash
+ * covers everything before it
+ */
+export const INTEGRITY_MARKER = '<!-- report-integrity -->'
+
+/**
+ * Collect everything a report shows from a stored assessment
+ */
+export function buildAssessmentReport(record: AssessmentRecord, generatedAt = new Date().toISOString()): AssessmentReport {
+  const { plan, sentinel, verdict } = record
+
+  return {
+    assessment_id: record.id,
+    task: record.task,
+    plan: {
+      steps: plan.steps,
+      resources_needed: plan.resources_needed || [],
+      external_systems: plan.external_systems || [],
+    },
+    risk: RISK_DIMENSIONS.map((dimension) => ({
+      dimension,
+      label: getDimensionLabel(dimension),
+      score: sentinel.risk_scores[dimension] ?? 0,
+      explanation: sentinel.risk_explanations?.[dimension] || '',
+    })),
+    verdict: verdict.type,
+    confidence: verdict.confidence,
+    weighted_score: verdict.weightedScore,
+    triggered_rules: verdict.triggeredRules,
+    required_action: getRequiredAction(verdict.type),
+    policy_version: verdict.policyVersion,
+    human_decision: verdict.humanDecision,
+    findings: (record.findings || []).map((finding) => ({
+      label: finding.label,
+      excerpt: finding.excerpt,
+      location: describeFindingLocation(finding),
+    })),
+    agents: record.agents,
+    source: record.source,
+    assessed_at: record.completed_at,
+    generated_at: generatedAt,
+  }
+}
+
+const formatVerdict = (type: string) => type.replace(/_/g, ' ')
+
+const markdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+
+/**
+ * Markdown report body, without the integrity trailer
+ */
+export function renderReportMarkdown(report: AssessmentReport): string {
+  const lines = [
+    '# Sentinel Assessment Report',
+    '',
+    `- **Assessment:** ${report.assessment_id}`,
+    `- **Assessed:** ${report.assessed_at}`,
+    `- **Generated:** ${report.generated_at}`,
+    `- **Policy version:** ${report.policy_version || 'unversioned'}`,
+    ...(report.source ? [`- **Source:** ${report.source}`] : []),
+    '',
+    '## Task',
+    '',
+    ...report.task.split(/\r?\n/).map((line) => `> ${line}`),
+    '',
+    '## Plan',
+    '',
+    '| # | Tag | Action | Concerns |',
+    '| --- | --- | --- | --- |',
+    ...report.plan.steps.map(
+      (step) =>
+        `| ${step.step_number} | ${step.action_tag} | ${markdownCell(step.action)} | ${markdownCell((step.concerns || []).join('; '))} |`
+    ),
+    '',
+  ]
+
+  if (report.plan.external_systems.length > 0) {
+    lines.push(`**External systems:** ${report.plan.external_systems.join(', ')}`, '')
+  }
+  if (report.plan.resources_needed.length > 0) {
+    lines.push(`**Resources needed:** ${report.plan.resources_needed.join(', ')}`, '')
+  }
+
+  lines.push(
+    '## Risk Assessment',
+    '',
+    '| Dimension | Score | Explanation |',
+    '| --- | --- | --- |',
+    ...report.risk.map((row) => `| ${row.label} | ${row.score} | ${markdownCell(row.explanation)} |`),
+    '',
+    '## Verdict',
+    '',
+    `**${formatVerdict(report.verdict)}** · weighted score ${report.weighted_score.toFixed(2)} · confidence ${report.confidence.toFixed(1)}%`,
+    '',
+    '### Triggered rules',
+    '',
+    ...report.triggered_rules.map((rule) => `- ${rule}`),
+    '',
+    '### Required action',
+    '',
+    report.required_action,
+    ''
+  )
+
+  if (report.human_decision) {
+    const decision = report.human_decision
+    lines.push(
+      '### Human decision',
+      '',
+      `${decision.status}${decision.reviewer ? ` by ${decision.reviewer}` : ''}${decision.decided_at ? ` at ${decision.decided_at}` : ''}`,
+      ''
+    )
+  }
+
+  if (report.findings.length > 0) {
+    lines.push(
+      '## Content Findings',
+      '',
+      ...report.findings.map((finding) => `- ${finding.label} \`${finding.excerpt}\` (${finding.location})`),
+      ''
+    )
+  }
+
+  return lines.join('\n')
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111827; max-width: 820px; margin: 32px auto; padding: 0 24px; font-size: 14px; line-height: 1.5; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  h2 { font-size: 16px; border-bottom: 1px solid #d1d5db; padding-bottom: 4px; margin-top: 28px; }
+  h3 { font-size: 14px; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #d1d5db; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  blockquote { margin: 0; padding: 8px 12px; background: #f9fafb; border-left: 3px solid #9ca3af; white-space: pre-wrap; }
+  .meta { color: #6b7280; font-size: 12px; }
+  .verdict { font-size: 18px; font-weight: 700; }
+  .mono { font-family: ui-monospace, Menlo, monospace; }
+  footer { margin-top: 32px; padding-top: 8px; border-top: 1px solid #d1d5db; color: #6b7280; font-size: 11px; word-break: break-all; }
+  @media print { body { margin: 0 auto; } }
+`
+
+/**
+ * Printable HTML report up to the end of its content; `renderReportHtmlTrailer`
+ * closes the document
+ */
+export function renderReportHtml(report: AssessmentReport): string {
+  const rows = (cells: string[][]) =>
+    cells.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')
+
+  const sections = [
+    `<h1>Sentinel Assessment Report</h1>`,
+    `<p class="meta mono">Assessment ${escapeHtml(report.assessment_id)} · assessed ${escapeHtml(report.assessed_at)} · generated ${escapeHtml(report.generated_at)} · policy ${escapeHtml(report.policy_version || 'unversioned')}${report.source ? ` · source ${escapeHtml(report.source)}` : ''}</p>`,
+    `<h2>Task</h2>`,
+    `<blockquote>${escapeHtml(report.task)}</blockquote>`,
+    `<h2>Plan</h2>`,
+    `<table><thead><tr><th>#</th><th>Tag</th><th>Action</th><th>Concerns</th></tr></thead><tbody>`,
+    rows(report.plan.steps.map((step) => [String(step.step_number), step.action_tag, step.action, (step.concerns || []).join('; ')])),
+    `</tbody></table>`,
+    report.plan.external_systems.length > 0
+      ? `<p><strong>External systems:</strong> ${escapeHtml(report.plan.external_systems.join(', '))}</p>`
+      : '',
+    report.plan.resources_needed.length > 0
+      ? `<p><strong>Resources needed:</strong> ${escapeHtml(report.plan.resources_needed.join(', '))}</p>`
+      : '',
+    `<h2>Risk Assessment</h2>`,
+    `<table><thead><tr><th>Dimension</th><th>Score</th><th>Explanation</th></tr></thead><tbody>`,
+    rows(report.risk.map((row) => [row.label, String(row.score), row.explanation])),
+    `</tbody></table>`,
+    `<h2>Verdict</h2>`,
+    `<p class="verdict">${escapeHtml(formatVerdict(report.verdict))}</p>`,
+    `<p class="meta">Weighted score ${report.weighted_score.toFixed(2)} · confidence ${report.confidence.toFixed(1)}%</p>`,
+    `<h3>Triggered rules</h3>`,
+    `<ul>${report.triggered_rules.map((rule) => `<li>${escapeHtml(rule)}</li>`).join('')}</ul>`,
+    `<h3>Required action</h3>`,
+    `<p>${escapeHtml(report.required_action)}</p>`,
+  ]
+
+  if (report.human_decision) {
+    const decision = report.human_decision
+    sections.push(
+      `<h3>Human decision</h3>`,
+      `<p>${escapeHtml(`${decision.status}${decision.reviewer ? ` by ${decision.reviewer}` : ''}${decision.decided_at ? ` at ${decision.decided_at}` : ''}`)}</p>`
+    )
+  }
+
+  if (report.findings.length > 0) {
+    sections.push(
+      `<h2>Content Findings</h2>`,
+      `<ul>${report.findings
+        .map((finding) => `<li>${escapeHtml(finding.label)} <span class="mono">${escapeHtml(finding.excerpt)}</span> (${escapeHtml(finding.location)})</li>`)
+        .join('')}</ul>`
+    )
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>Sentinel report ${escapeHtml(report.assessment_id)}</title>`,
+    `<style>${REPORT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    ...sections.filter(Boolean),
+  ].join('\n')
+}
+
+/**
+ * Integrity footer and closing tags for an HTML report
+ */
+export function renderReportHtmlTrailer(integrity: ReportIntegrity, print = false): string {
+  return [
+    `<footer class="mono">Content hash (${integrity.algorithm}): ${integrity.hash}</footer>`,
+    print ? '<script>window.addEventListener("load", () => window.print())</script>' : '',
+    '</body>',
+    '</html>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
@@ -0,0 +1,151 @@
+/**
+ * Report Signing
+ *
+ * Server-side hashing for exported assessment reports. With
+ * REPORT_SIGNING_SECRET set, reports carry an HMAC-SHA256 that only this
+ * server can produce, and verification accepts nothing else; without it they
+ * carry a plain SHA-256, which detects edits but not a re-hashed forgery.
+ *
+ * - JSON reports: `{ report, integrity }`, hashing `JSON.stringify(report)`
+ * - Markdown and HTML: the hash covers everything before INTEGRITY_MARKER
+ *
+ * Do not import from client components: reads the signing secret.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+import {
+  buildAssessmentReport,
+  INTEGRITY_MARKER,
+  renderReportHtml,
+  renderReportHtmlTrailer,
+  renderReportMarkdown,
+  type AssessmentReport,
+  type ReportFormat,
+  type ReportIntegrity,
+} from '@/lib/report'
+import type { AssessmentRecord } from '@/lib/assessment'
+
+// Types
+export interface ExportedReport {
+  content: string
+  contentType: string
+  fileName: string
+  integrity: ReportIntegrity
+}
+
+export interface ReportVerification {
+  valid: boolean
+  format?: ReportFormat
+  algorithm?: ReportIntegrity['algorithm']
+  /** Hash carried by the report */
+  hash?: string
+  /** Hash recomputed from its content */
+  expected_hash?: string
+  error?: string
+}
+
+const REPORT_SIGNING_SECRET = process.env.REPORT_SIGNING_SECRET || ''
+
+/**
+ * Hash report content with the configured algorithm
+ */
+export function hashReportContent(content: string, algorithm?: ReportIntegrity['algorithm']): ReportIntegrity {
+  const useHmac = algorithm ? algorithm === 'hmac-sha256' : Boolean(REPORT_SIGNING_SECRET)
+  return useHmac
+    ? { algorithm: 'hmac-sha256', hash: createHmac('sha256', REPORT_SIGNING_SECRET).update(content, 'utf8').digest('hex') }
+    : { algorithm: 'sha256', hash: createHash('sha256').update(content, 'utf8').digest('hex') }
+}
+
+/**
+ * Render and sign a stored assessment in the requested format
+ */
+export function exportAssessmentReport(
+  record: AssessmentRecord,
+  format: ReportFormat,
+  options: { print?: boolean } = {}
+): ExportedReport {
+  const report = buildAssessmentReport(record)
+  const baseName = `sentinel-report-${record.id.substring(0, 8)}`
+
+  if (format === 'json') {
+    const integrity = hashReportContent(JSON.stringify(report))
+    return {
+      content: JSON.stringify({ report, integrity }, null, 2) + '\n',
+      contentType: 'application/json; charset=utf-8',
+      fileName: `${baseName}.json`,
+      integrity,
+    }
+  }
+
+  if (format === 'html') {
+    const body = renderReportHtml(report)
+    const integrity = hashReportContent(body)
+    return {
+      content: `${body}\n${INTEGRITY_MARKER}\n${renderReportHtmlTrailer(integrity, options.print)}\n`,
+      contentType: 'text/html; charset=utf-8',
+      fileName: `${baseName}.html`,
+      integrity,
+    }
+  }
+
+  const body = renderReportMarkdown(report)
+  const integrity = hashReportContent(body)
+  return {
+    content: `${body}\n${INTEGRITY_MARKER}\n---\n\nContent hash (${integrity.algorithm}): \`${integrity.hash}\`\n`,
+    contentType: 'text/markdown; charset=utf-8',
+    fileName: `${baseName}.md`,
+    integrity,
+  }
+}
+
+const hashesMatch = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a, 'utf8'), Buffer.from(b, 'utf8'))
+
+function verifyWith(format: ReportFormat, content: string, claimed: ReportIntegrity): ReportVerification {
+  if (claimed.algorithm === 'hmac-sha256' && !REPORT_SIGNING_SECRET) {
+    return { valid: false, format, algorithm: claimed.algorithm, hash: claimed.hash, error: 'REPORT_SIGNING_SECRET not configured' }
+  }
+  // Anyone can produce a plain SHA-256, so once reports are signed it proves nothing
+  if (claimed.algorithm !== 'hmac-sha256' && REPORT_SIGNING_SECRET) {
+    return { valid: false, format, algorithm: claimed.algorithm, hash: claimed.hash, error: 'Report is not signed: expected hmac-sha256' }
+  }
+
+  const expected = hashReportContent(content, claimed.algorithm)
+  return {
+    valid: hashesMatch(expected.hash, claimed.hash),
+    format,
+    algorithm: claimed.algorithm,
+    hash: claimed.hash,
+    expected_hash: expected.hash,
+  }
+}
+
+/**
+ * Check that an exported report has not been edited since it was generated
+ */
+export function verifyReport(text: string): ReportVerification {
+  const markerIndex = text.lastIndexOf(`\n${INTEGRITY_MARKER}\n`)
+
+  if (markerIndex === -1) {
+    let parsed: { report?: AssessmentReport; integrity?: ReportIntegrity }
+    try {
+      parsed = JSON.parse(text)
+    } catch {
+      return { valid: false, error: 'Not a Sentinel report: no integrity trailer or JSON integrity block' }
+    }
+    if (!parsed?.report || !parsed.integrity?.hash) {
+      return { valid: false, format: 'json', error: 'JSON report has no integrity block' }
+    }
+    return verifyWith('json', JSON.stringify(parsed.report), parsed.integrity)
+  }
+
+  const body = text.slice(0, markerIndex)
+  const trailer = text.slice(markerIndex)
+  const match = trailer.match(/Content hash \((hmac-sha256|sha256)\): `?([0-9a-f]{64})/)
+  if (!match) {
+    return { valid: false, error: 'Integrity trailer has no content hash' }
+  }
+
+  const format: ReportFormat = body.startsWith('<!DOCTYPE html>') ? 'html' : 'md'
+  return verifyWith(format, body, { algorithm: match[1] as ReportIntegrity['algorithm'], hash: match[2] })
+}
@@ -0,0 +1,102 @@
+/**
+ * Response Schema Validation
+ *
+ * Checks values against the shape notation used in response_schemas/*.json,
+ * where leaves are type names ("string", "number", "boolean"), objects list
+ * required keys and single-item arrays describe every element.
+ *
+ * @example
+ * ```ts
+ * validateSchema({ plan: { steps: 'none' } }, { plan: { steps: [{ action: 'string' }] } })
+ * // [{ path: 'plan.steps', message: 'Expected an array', severity: 'error' }]
+ * ```
+ */
+
+// Types
+export type SchemaNode = string | SchemaNode[] | { [key: string]: SchemaNode }
+
+export type SchemaIssueSeverity = 'error' | 'warning'
+
+export interface SchemaIssue {
+  /** Dotted path into the validated value, e.g. `steps[2].action` */
+  path: string
+  message: string
+  /** Warnings were corrected in place, errors make the value unusable */
+  severity: SchemaIssueSeverity
+}
+
+export interface SchemaOptions {
+  /**
+   * Paths that may be absent. `[]` matches any array index and `*` any key,
+   * e.g. `step_assessments[].risk_explanations.*`
+   */
+  optional?: string[]
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key)
+
+function isOptional(path: string, optional: string[]): boolean {
+  const normalized = path.replace(/\[\d+\]/g, '[]')
+  return optional.some((pattern) => {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.[\]]/g, '\\$&'))
+      .join('[^.[]+')
+    return new RegExp(`^${source}$`).test(normalized)
+  })
+}
+
+function checkLeaf(value: unknown, type: string, path: string): SchemaIssue[] {
+  const matches =
+    type === 'number' ? typeof value === 'number' && !Number.isNaN(value) : typeof value === type
+
+  return matches ? [] : [{ path, message: `Expected ${type}, got ${value === null ? 'null' : typeof value}`, severity: 'error' }]
+}
+
+/**
+ * Validate a value against a schema node, returning every issue found
+ *
+ * Extra keys are allowed; missing required keys and wrong types are errors.
+ */
+export function validateSchema(value: unknown, schema: SchemaNode, options: SchemaOptions = {}, path = ''): SchemaIssue[] {
+  const optional = options.optional || []
+
+  if (value === undefined || value === null) {
+    return isOptional(path, optional) ? [] : [{ path: path || '(root)', message: 'Missing required value', severity: 'error' }]
+  }
+
+  if (typeof schema === 'string') {
+    return checkLeaf(value, schema, path)
+  }
+
+  if (Array.isArray(schema)) {
+    if (!Array.isArray(value)) {
+      return [{ path, message: 'Expected an array', severity: 'error' }]
+    }
+    if (schema.length === 0) return []
+    return value.flatMap((item, idx) => validateSchema(item, schema[0], options, `${path}[${idx}]`))
+  }
+
+  if (!isPlainObject(value)) {
+    return [{ path: path || '(root)', message: 'Expected an object', severity: 'error' }]
+  }
+
+  return Object.entries(schema).flatMap(([key, child]) => validateSchema(value[key], child, options, joinPath(path, key)))
+}
+
+/**
+ * Whether any issue makes the value unusable
+ */
+export function hasSchemaErrors(issues: SchemaIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error')
+}
+
+/**
+ * One-line summary of issues for error banners and API errors
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')
+}
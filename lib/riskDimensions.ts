@@ -0,0 +1,130 @@
+/**
+ * Risk Dimension Registry
+ *
+ * Single source for the dimensions the Sentinel scores, read by the UI, the
+ * decision engine and the Sentinel prompt. Edit config/risk_dimensions.json to
+ * add, drop or re-weight dimensions.
+ *
+ * @example
+ * ```ts
+ * import { RISK_DIMENSIONS, getDimensionLabel, getDimensionWeights } from '@/lib/riskDimensions'
+ *
+ * RISK_DIMENSIONS.map((dimension) => getDimensionLabel(dimension))
+ * getDimensionWeights() // { irreversibility: 0.25, external_impact: 0.25, ... }
+ * ```
+ */
+
+import riskDimensionsConfig from '@/config/risk_dimensions.json'
+
+// Types
+export interface RiskDimensionDefinition {
+  id: string
+  label: string
+  icon: string
+  /** Weight in the decision engine's weighted score */
+  weight: number
+  /** Shown to the Sentinel so it knows what to score */
+  description: string
+}
+
+export interface RiskScoreRange {
+  min: number
+  max: number
+}
+
+export interface RiskDimensionRegistry {
+  score_range: RiskScoreRange
+  dimensions: RiskDimensionDefinition[]
+}
+
+/**
+ * Validate a registry definition, returning error messages if invalid
+ */
+export function validateRiskDimensionRegistry(registry: RiskDimensionRegistry): string[] {
+  const errors: string[] = []
+  const { score_range, dimensions } = registry
+
+  if (!score_range || !(score_range.max > score_range.min)) {
+    errors.push('score_range.max must be greater than score_range.min')
+  }
+  if (!Array.isArray(dimensions) || dimensions.length === 0) {
+    errors.push('At least one dimension is required')
+    return errors
+  }
+
+  const seen = new Set<string>()
+  for (const dimension of dimensions) {
+    if (!/^[a-z][a-z0-9_]*$/.test(dimension.id || '')) {
+      errors.push(`Dimension id "${dimension.id}" must be snake_case`)
+    } else if (seen.has(dimension.id)) {
+      errors.push(`Dimension "${dimension.id}" is defined more than once`)
+    }
+    seen.add(dimension.id)
+
+    if (typeof dimension.weight !== 'number' || dimension.weight < 0) {
+      errors.push(`Dimension "${dimension.id}" needs a non-negative weight`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Build a registry, failing fast on an invalid definition
+ */
+export function createRiskDimensionRegistry(definition: RiskDimensionRegistry): RiskDimensionRegistry {
+  const errors = validateRiskDimensionRegistry(definition)
+  if (errors.length > 0) {
+    throw new Error(`Invalid risk dimension registry: ${errors.join('; ')}`)
+  }
+  return definition
+}
+
+export const RISK_DIMENSION_REGISTRY = createRiskDimensionRegistry(riskDimensionsConfig)
+
+/** Configured dimension IDs, in display order */
+export const RISK_DIMENSIONS: string[] = RISK_DIMENSION_REGISTRY.dimensions.map((dimension) => dimension.id)
+
+export const RISK_SCORE_RANGE: RiskScoreRange = RISK_DIMENSION_REGISTRY.score_range
+
+/**
+ * Look up a dimension definition
+ */
+export function getRiskDimension(id: string, registry = RISK_DIMENSION_REGISTRY): RiskDimensionDefinition | undefined {
+  return registry.dimensions.find((dimension) => dimension.id === id)
+}
+
+/**
+ * Display label, falling back to the ID for dimensions outside the registry
+ */
+export function getDimensionLabel(id: string, registry = RISK_DIMENSION_REGISTRY): string {
+  return getRiskDimension(id, registry)?.label || id.replace(/_/g, ' ')
+}
+
+/**
+ * Decision engine weights keyed by dimension
+ */
+export function getDimensionWeights(registry = RISK_DIMENSION_REGISTRY): Record<string, number> {
+  return Object.fromEntries(registry.dimensions.map((dimension) => [dimension.id, dimension.weight]))
+}
+
+/**
+ * Every whole score in the range, lowest first
+ */
+export function getScoreLevels(range = RISK_SCORE_RANGE): number[] {
+  return Array.from({ length: range.max - range.min + 1 }, (_, idx) => range.min + idx)
+}
+
+/**
+ * Expected risk_scores / risk_explanations shape, in the response_schemas notation
+ */
+export function buildRiskSchema(registry = RISK_DIMENSION_REGISTRY): {
+  risk_scores: Record<string, string>
+  risk_explanations: Record<string, string>
+} {
+  return {
+    risk_scores: Object.fromEntries(registry.dimensions.map((dimension) => [dimension.id, 'number'])),
+    risk_explanations: Object.fromEntries(registry.dimensions.map((dimension) => [dimension.id, 'string'])),
+  }
+}
+
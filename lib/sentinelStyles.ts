@@ -0,0 +1,151 @@
+/**
+ * Sentinel UI Styles
+ *
+ * Tailwind class and label helpers shared by the Sentinel pages.
+ */
+
+import type { HumanDecisionStatus, VerdictType } from '@/lib/decisionEngine'
+import { getRiskDimension, RISK_SCORE_RANGE } from '@/lib/riskDimensions'
+
+// Verdict color mapping
+export function getVerdictColor(type: VerdictType) {
+  switch (type) {
+    case 'APPROVE':
+      return 'text-emerald-400'
+    case 'APPROVE_WITH_NOTICE':
+      return 'text-green-400'
+    case 'ASK_FOR_CLARIFICATION':
+      return 'text-amber-400'
+    case 'MODIFY':
+      return 'text-orange-400'
+    case 'BLOCK':
+      return 'text-red-400'
+  }
+}
+
+export function getVerdictGlow(type: VerdictType) {
+  switch (type) {
+    case 'APPROVE':
+      return 'shadow-emerald-500/50'
+    case 'APPROVE_WITH_NOTICE':
+      return 'shadow-green-500/50'
+    case 'ASK_FOR_CLARIFICATION':
+      return 'shadow-amber-500/50'
+    case 'MODIFY':
+      return 'shadow-orange-500/50'
+    case 'BLOCK':
+      return 'shadow-red-500/50'
+  }
+}
+
+export function getVerdictBg(type: VerdictType) {
+  switch (type) {
+    case 'APPROVE':
+      return 'bg-gradient-to-br from-emerald-500/20 to-emerald-600/10'
+    case 'APPROVE_WITH_NOTICE':
+      return 'bg-gradient-to-br from-green-500/20 to-green-600/10'
+    case 'ASK_FOR_CLARIFICATION':
+      return 'bg-gradient-to-br from-amber-500/20 to-amber-600/10'
+    case 'MODIFY':
+      return 'bg-gradient-to-br from-orange-500/20 to-orange-600/10'
+    case 'BLOCK':
+      return 'bg-gradient-to-br from-red-500/20 to-red-600/10'
+  }
+}
+
+export function getVerdictBorder(type: VerdictType) {
+  switch (type) {
+    case 'APPROVE':
+      return 'border-emerald-500/50'
+    case 'APPROVE_WITH_NOTICE':
+      return 'border-green-500/50'
+    case 'ASK_FOR_CLARIFICATION':
+      return 'border-amber-500/50'
+    case 'MODIFY':
+      return 'border-orange-500/50'
+    case 'BLOCK':
+      return 'border-red-500/50'
+  }
+}
+
+// Action tag color mapping
+export function getActionTagColor(tag: string) {
+  switch (tag) {
+    case 'READ':
+      return 'bg-blue-500/10 text-blue-300 border-blue-500/30 shadow-blue-500/20'
+    case 'CREATE':
+      return 'bg-green-500/10 text-green-300 border-green-500/30 shadow-green-500/20'
+    case 'SEND':
+      return 'bg-purple-500/10 text-purple-300 border-purple-500/30 shadow-purple-500/20'
+    case 'DELETE':
+      return 'bg-red-500/10 text-red-300 border-red-500/30 shadow-red-500/20'
+    case 'MODIFY':
+      return 'bg-orange-500/10 text-orange-300 border-orange-500/30 shadow-orange-500/20'
+    default:
+      return 'bg-gray-500/10 text-gray-300 border-gray-500/30 shadow-gray-500/20'
+  }
+}
+
+// Risk score color mapping
+/** Scales a score in the configured range onto the four color bands (0-3) */
+export function getRiskLevel(score: number) {
+  const { min, max } = RISK_SCORE_RANGE
+  return Math.max(0, Math.min(3, Math.round(((score - min) / (max - min)) * 3)))
+}
+
+export function getRiskColor(score: number) {
+  const level = getRiskLevel(score)
+  if (level === 0) return 'text-gray-400'
+  if (level === 1) return 'text-blue-400'
+  if (level === 2) return 'text-amber-400'
+  return 'text-red-400'
+}
+
+export function getRiskBg(score: number) {
+  const level = getRiskLevel(score)
+  if (level === 0) return 'bg-gray-500/20'
+  if (level === 1) return 'bg-blue-500/20'
+  if (level === 2) return 'bg-amber-500/20'
+  return 'bg-red-500/20'
+}
+
+export function getRiskGradient(score: number) {
+  const level = getRiskLevel(score)
+  if (level === 0) return 'from-gray-500/20 to-gray-600/10'
+  if (level === 1) return 'from-blue-500/20 to-blue-600/10'
+  if (level === 2) return 'from-amber-500/20 to-amber-600/10'
+  return 'from-red-500/20 to-red-600/10'
+}
+
+export function getRequiredAction(type: VerdictType) {
+  switch (type) {
+    case 'APPROVE':
+      return 'Task may proceed as planned. No additional approval required.'
+    case 'APPROVE_WITH_NOTICE':
+      return 'Task may proceed with awareness of identified concerns. Monitor execution closely.'
+    case 'ASK_FOR_CLARIFICATION':
+      return 'Provide additional context or clarification before proceeding. Missing critical information.'
+    case 'MODIFY':
+      return 'Plan requires modifications to reduce risk. Review and revise the execution steps.'
+    case 'BLOCK':
+      return 'Task execution is BLOCKED. Risk level unacceptable. Do not proceed without senior approval.'
+  }
+}
+
+export function getDimensionIcon(dimension: string) {
+  return getRiskDimension(dimension)?.icon || '•'
+}
+
+// Human decision color mapping
+export function getHumanDecisionColor(status: HumanDecisionStatus) {
+  switch (status) {
+    case 'PENDING':
+      return 'bg-amber-500/10 text-amber-300 border-amber-500/30'
+    case 'APPROVED':
+      return 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30'
+    case 'REJECTED':
+      return 'bg-red-500/10 text-red-300 border-red-500/30'
+    case 'OVERRIDDEN':
+      return 'bg-purple-500/10 text-purple-300 border-purple-500/30'
+  }
+}
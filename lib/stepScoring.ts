@@ -0,0 +1,74 @@
+/**
+ * Per-Step Risk Scoring
+ *
+ * Rolls step-level Sentinel scores up into the plan-level RiskScores and
+ * finds the steps responsible for each elevated dimension.
+ */
+
+import type { RiskDimension, RiskScores } from '@/lib/decisionEngine'
+import type { RiskExplanations, SentinelResult, StepRiskAssessment } from '@/lib/assessment'
+import { RISK_SCORE_RANGE } from '@/lib/riskDimensions'
+
+/** Scores at or above this mark a step as driving a dimension (2 on the default 0-3 range) */
+export const OFFENDING_STEP_MIN_SCORE = Math.ceil(RISK_SCORE_RANGE.min + ((RISK_SCORE_RANGE.max - RISK_SCORE_RANGE.min) * 2) / 3)
+
+/**
+ * Plan-level scores take the worst of the plan score and every step score
+ *
+ * When a step raises a dimension above the plan-level score, its explanation
+ * replaces the plan-level one, prefixed with the step number.
+ */
+export function rollUpStepScores(result: SentinelResult): SentinelResult {
+  const steps = result.step_assessments
+  if (!steps || steps.length === 0) return result
+
+  const risk_scores: RiskScores = { ...result.risk_scores }
+  const risk_explanations: RiskExplanations = { ...result.risk_explanations }
+
+  for (const step of steps) {
+    for (const dimension of Object.keys(step.risk_scores || {}) as RiskDimension[]) {
+      const stepScore = step.risk_scores[dimension]
+      if (typeof stepScore !== 'number' || stepScore <= (risk_scores[dimension] ?? 0)) continue
+
+      risk_scores[dimension] = stepScore
+      const explanation = step.risk_explanations?.[dimension]
+      if (explanation) {
+        risk_explanations[dimension] = `Step ${step.step_number}: ${explanation}`
+      }
+    }
+  }
+
+  return { ...result, risk_scores, risk_explanations }
+}
+
+/**
+ * Dimensions each step drives, keyed by step number
+ *
+ * A step drives a dimension when its score matches the plan-level score and is
+ * at least `minScore`.
+ */
+export function findOffendingSteps(
+  result: SentinelResult,
+  minScore: number = OFFENDING_STEP_MIN_SCORE
+): Record<number, RiskDimension[]> {
+  const offending: Record<number, RiskDimension[]> = {}
+
+  for (const step of result.step_assessments || []) {
+    const dimensions = (Object.keys(step.risk_scores || {}) as RiskDimension[]).filter((dimension) => {
+      const score = step.risk_scores[dimension]
+      return score >= minScore && score >= (result.risk_scores[dimension] ?? 0)
+    })
+    if (dimensions.length > 0) {
+      offending[step.step_number] = dimensions
+    }
+  }
+
+  return offending
+}
+
+/**
+ * Step assessment for a step number, if the Sentinel returned one
+ */
+export function getStepAssessment(result: SentinelResult | null, stepNumber: number): StepRiskAssessment | undefined {
+  return result?.step_assessments?.find((step) => step.step_number === stepNumber)
+}
@@ -0,0 +1,446 @@
+/**
+ * Workflow Engine
+ *
+ * Executes node/edge graphs in the shape of workflow.json. Nodes run once all
+ * of their predecessors have completed, so independent branches (several
+ * Sentinels reviewing the same plan, say) run in parallel. Each node receives
+ * the merged output of its predecessors and passes its own output downstream.
+ *
+ * Node types:
+ * - `Input`: seeds the context with the task, scanned and redacted
+ * - `Agent`: runs the node's agent; Worker and Sentinel output is validated
+ *   and Worker plans are scanned
+ * - `Decision`: aggregates every upstream Sentinel result (by the node's
+ *   `strategy`, default max) and runs the Decision Engine
+ * - `Output`: collects the final context
+ *
+ * Per-node status is written to `workflow_runs/<run_id>.json` as the run
+ * progresses, in the same spirit as workflow_state.json.
+ *
+ * @example
+ * ```ts
+ * const outcome = await executeWorkflow(workflow, { task: 'Archive last year\'s invoices' })
+ * if (outcome.success) console.log(outcome.run.output?.verdict)
+ * ```
+ */
+
+import defaultWorkflow from '@/workflow.json'
+import { invokeAgentWithRepair } from '@/lib/agentService'
+import { getAgentRole } from '@/lib/agentRegistry'
+import { validateSentinelOutput, validateWorkerOutput } from '@/lib/agentOutput'
+import { formatSchemaIssues } from '@/lib/responseSchema'
+import { rollUpStepScores } from '@/lib/stepScoring'
+import { CONTENT_SCANNER_CONFIG, getScanFloors, redactText, scanPlan, scanText, type ScanFinding } from '@/lib/contentScanner'
+import { readJsonFile, writeJsonFile } from '@/lib/fileStore'
+import { generateUUID } from '@/lib/utils'
+import { DEFAULT_DECISION_POLICY, type DecisionPolicy, type Verdict } from '@/lib/decisionEngine'
+import {
+  calculateEnsembleVerdict,
+  combineSentinelResults,
+  ENSEMBLE_STRATEGIES,
+  type EnsembleStrategy,
+  type SentinelEvaluation,
+} from '@/lib/ensemble'
+import { buildSentinelMessage, type SentinelResult, type WorkerPlan } from '@/lib/assessment'
+
+// Types
+export type WorkflowNodeType = 'Input' | 'Agent' | 'Decision' | 'Output'
+
+export const WORKFLOW_NODE_TYPES: WorkflowNodeType[] = ['Input', 'Agent', 'Decision', 'Output']
+
+export interface WorkflowNode {
+  id: string
+  type: WorkflowNodeType
+  label?: string
+  nodeCategory?: string
+  /** Required for Agent nodes */
+  agent_id?: string
+  /** Decision nodes: how several Sentinel results are aggregated */
+  strategy?: EnsembleStrategy
+}
+
+export interface WorkflowEdge {
+  source: string
+  target: string
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowNode[]
+  edges: WorkflowEdge[]
+}
+
+export type NodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped'
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed'
+
+export interface SentinelReview extends SentinelEvaluation {
+  node_id: string
+}
+
+/** Data passed from node to node */
+export interface WorkflowContext {
+  task?: string
+  user_id?: string
+  plan?: WorkerPlan
+  /** One entry per Sentinel node upstream, in completion order */
+  sentinels?: SentinelReview[]
+  /** Aggregated Sentinel result the verdict was calculated from */
+  sentinel?: SentinelResult
+  verdict?: Verdict
+  /** Content scanner findings on the task and plan */
+  findings?: ScanFinding[]
+  /** Results of agents outside the Worker and Sentinel roles, by node ID */
+  agent_outputs?: Record<string, Record<string, any>>
+}
+
+export interface NodeState {
+  status: NodeStatus
+  started_at?: string
+  completed_at?: string
+  output?: WorkflowContext
+  error?: string
+}
+
+export interface WorkflowRun {
+  id: string
+  status: WorkflowRunStatus
+  input: { task: string; user_id?: string }
+  nodes: Record<string, NodeState>
+  /** Merged context of the Output nodes, or of the last nodes to run */
+  output?: WorkflowContext
+  error?: string
+  started_at: string
+  completed_at?: string
+}
+
+export interface WorkflowOptions {
+  policy?: DecisionPolicy
+}
+
+export interface WorkflowOutcome {
+  success: boolean
+  run?: WorkflowRun
+  /** HTTP status for runs that could not start or did not complete */
+  status?: number
+  error?: string
+}
+
+interface NodeResult {
+  output?: WorkflowContext
+  error?: string
+}
+
+export const DEFAULT_WORKFLOW = defaultWorkflow as WorkflowGraph
+
+const runFile = (runId: string) => `workflow_runs/${runId}.json`
+
+// =============================================================================
+// Graph validation
+// =============================================================================
+
+/**
+ * Structural problems with a graph; empty when it can be executed
+ */
+export function validateWorkflow(graph: WorkflowGraph): string[] {
+  const errors: string[] = []
+  const nodes = Array.isArray(graph?.nodes) ? graph.nodes : []
+  const edges = Array.isArray(graph?.edges) ? graph.edges : []
+
+  if (nodes.length === 0) return ['workflow has no nodes']
+
+  const ids = new Set<string>()
+  for (const node of nodes) {
+    if (!node?.id) {
+      errors.push('node without an id')
+      continue
+    }
+    if (ids.has(node.id)) errors.push(`duplicate node id "${node.id}"`)
+    ids.add(node.id)
+
+    if (!WORKFLOW_NODE_TYPES.includes(node.type)) {
+      errors.push(`node "${node.id}" has unknown type "${node.type}"`)
+    }
+    if (node.type === 'Agent' && !node.agent_id) {
+      errors.push(`agent node "${node.id}" has no agent_id`)
+    }
+    if (node.type === 'Decision' && node.strategy !== undefined && !ENSEMBLE_STRATEGIES.includes(node.strategy)) {
+      errors.push(`decision node "${node.id}" has unknown strategy "${node.strategy}"`)
+    }
+  }
+
+  if (!nodes.some((node) => node.type === 'Input')) {
+    errors.push('workflow has no Input node')
+  }
+
+  for (const edge of edges) {
+    if (!ids.has(edge.source)) errors.push(`edge source "${edge.source}" is not a node`)
+    if (!ids.has(edge.target)) errors.push(`edge target "${edge.target}" is not a node`)
+  }
+
+  if (errors.length === 0 && topologicalOrder(graph).length < nodes.length) {
+    errors.push('workflow contains a cycle')
+  }
+
+  return errors
+}
+
+/**
+ * Node IDs in dependency order (Kahn's algorithm); nodes on a cycle are left out
+ */
+function topologicalOrder(graph: WorkflowGraph): string[] {
+  const inDegree = new Map(graph.nodes.map((node) => [node.id, 0]))
+  for (const edge of graph.edges) {
+    inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1)
+  }
+
+  const queue = graph.nodes.filter((node) => inDegree.get(node.id) === 0).map((node) => node.id)
+  const order: string[] = []
+
+  while (queue.length > 0) {
+    const id = queue.shift()
+    order.push(id)
+    for (const edge of graph.edges.filter((candidate) => candidate.source === id)) {
+      const remaining = inDegree.get(edge.target) - 1
+      inDegree.set(edge.target, remaining)
+      if (remaining === 0) queue.push(edge.target)
+    }
+  }
+
+  return order
+}
+
+const predecessorsOf = (graph: WorkflowGraph, nodeId: string) =>
+  graph.edges.filter((edge) => edge.target === nodeId).map((edge) => edge.source)
+
+// =============================================================================
+// Context handling
+// =============================================================================
+
+/**
+ * Merge the outputs of several predecessors; Sentinel reviews accumulate
+ */
+export function mergeContexts(contexts: WorkflowContext[]): WorkflowContext {
+  const merged: WorkflowContext = {}
+
+  for (const context of contexts) {
+    const { sentinels, agent_outputs, ...rest } = context
+    Object.assign(merged, rest)
+
+    if (sentinels) {
+      const known = new Set((merged.sentinels || []).map((review) => review.node_id))
+      merged.sentinels = [...(merged.sentinels || []), ...sentinels.filter((review) => !known.has(review.node_id))]
+    }
+    if (agent_outputs) {
+      merged.agent_outputs = { ...merged.agent_outputs, ...agent_outputs }
+    }
+  }
+
+  return merged
+}
+
+// =============================================================================
+// Node execution
+// =============================================================================
+
+async function runAgentNode(node: WorkflowNode, context: WorkflowContext): Promise<NodeResult> {
+  const role = getAgentRole(node.agent_id)
+
+  if (role === 'worker') {
+    if (!context.task) return { error: 'no task to plan' }
+
+    const worker = await invokeAgentWithRepair(
+      { message: context.task, agent_id: node.agent_id, user_id: context.user_id },
+      { role }
+    )
+    if (!worker.body.success || worker.body.response.status !== 'success') {
+      return { error: worker.body.response.message || worker.body.error || 'Failed to generate plan' }
+    }
+
+    const output = validateWorkerOutput(worker.body.response.result)
+    if (!output.valid) return { error: `Malformed worker output: ${formatSchemaIssues(output.issues)}` }
+
+    return {
+      output: {
+        ...context,
+        user_id: worker.body.user_id,
+        plan: output.value,
+        findings: [...(context.findings || []), ...scanPlan(output.value)],
+      },
+    }
+  }
+
+  if (role === 'sentinel') {
+    if (!context.plan) return { error: 'no plan to evaluate' }
+
+    const sentinel = await invokeAgentWithRepair(
+      { message: buildSentinelMessage(context.plan), agent_id: node.agent_id, user_id: context.user_id },
+      { role }
+    )
+    if (!sentinel.body.success || sentinel.body.response.status !== 'success') {
+      return { error: sentinel.body.response.message || sentinel.body.error || 'Failed to evaluate plan' }
+    }
+
+    const output = validateSentinelOutput(sentinel.body.response.result)
+    if (!output.valid) return { error: `Malformed sentinel output: ${formatSchemaIssues(output.issues)}` }
+
+    const review: SentinelReview = {
+      node_id: node.id,
+      agent_id: node.agent_id,
+      session_id: sentinel.body.session_id,
+      result: rollUpStepScores(output.value),
+    }
+    return { output: { ...context, sentinels: [...(context.sentinels || []), review] } }
+  }
+
+  // Agents without a pipeline role get the upstream context as their message
+  const agent = await invokeAgentWithRepair({
+    message: JSON.stringify(context),
+    agent_id: node.agent_id,
+    user_id: context.user_id,
+  })
+  if (!agent.body.success || agent.body.response.status !== 'success') {
+    return { error: agent.body.response.message || agent.body.error || 'Agent call failed' }
+  }
+
+  return {
+    output: {
+      ...context,
+      agent_outputs: { ...context.agent_outputs, [node.id]: agent.body.response.result },
+    },
+  }
+}
+
+async function runNode(node: WorkflowNode, context: WorkflowContext, options: WorkflowOptions): Promise<NodeResult> {
+  switch (node.type) {
+    case 'Input': {
+      const findings = scanText(context.task || '')
+      const task = CONTENT_SCANNER_CONFIG.redact_before_send ? redactText(context.task || '', findings) : context.task
+      return { output: { ...context, task, findings } }
+    }
+
+    case 'Output':
+      return { output: context }
+
+    case 'Agent':
+      return runAgentNode(node, context)
+
+    case 'Decision': {
+      if (!context.sentinels || context.sentinels.length === 0) {
+        return { error: 'no Sentinel results to decide on' }
+      }
+      const sentinel = combineSentinelResults(context.sentinels, node.strategy || 'max')
+      const verdict = calculateEnsembleVerdict(sentinel, options.policy || DEFAULT_DECISION_POLICY, {
+        task: context.task,
+        plan: context.plan,
+        floors: getScanFloors(context.findings || []),
+      })
+      return { output: { ...context, sentinel, verdict } }
+    }
+  }
+}
+
+// =============================================================================
+// Runs
+// =============================================================================
+
+/**
+ * Execute a workflow graph for a task, persisting node state as it changes
+ */
+export async function executeWorkflow(
+  graph: WorkflowGraph,
+  input: { task: string; user_id?: string },
+  options: WorkflowOptions = {}
+): Promise<WorkflowOutcome> {
+  const errors = validateWorkflow(graph)
+  if (errors.length > 0) {
+    return { success: false, status: 400, error: `Invalid workflow: ${errors.join('; ')}` }
+  }
+
+  const run: WorkflowRun = {
+    id: generateUUID(),
+    status: 'running',
+    input,
+    nodes: Object.fromEntries(graph.nodes.map((node) => [node.id, { status: 'pending' as NodeStatus }])),
+    started_at: new Date().toISOString(),
+  }
+
+  // Writes are chained so parallel nodes never interleave on the state file;
+  // a failed write rejects its own save but not the ones queued after it
+  let saving = writeJsonFile(runFile(run.id), run)
+  const save = () => {
+    saving = saving.catch(() => undefined).then(() => writeJsonFile(runFile(run.id), run))
+    return saving
+  }
+
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]))
+
+  const runOne = async (node: WorkflowNode) => {
+    const state = run.nodes[node.id]
+    state.status = 'running'
+    state.started_at = new Date().toISOString()
+    await save()
+
+    const upstream = predecessorsOf(graph, node.id).map((source) => run.nodes[source].output)
+    const context = node.type === 'Input' ? { ...input } : mergeContexts(upstream)
+
+    let result: NodeResult
+    try {
+      result = await runNode(node, context, options)
+    } catch (error) {
+      result = { error: error instanceof Error ? error.message : 'Node failed' }
+    }
+
+    state.status = result.error ? 'failed' : 'completed'
+    state.completed_at = new Date().toISOString()
+    if (result.error) state.error = result.error
+    else state.output = result.output
+    await save()
+  }
+
+  // Each node starts as soon as its own predecessors settle, not a whole wave
+  const settled = new Map<string, Promise<void>>()
+  const schedule = (node: WorkflowNode): Promise<void> => {
+    if (!settled.has(node.id)) {
+      const predecessors = predecessorsOf(graph, node.id)
+      settled.set(
+        node.id,
+        Promise.all(predecessors.map((source) => schedule(nodesById.get(source)))).then(() =>
+          predecessors.every((source) => run.nodes[source].status === 'completed') ? runOne(node) : undefined
+        )
+      )
+    }
+    return settled.get(node.id)
+  }
+
+  await Promise.all(graph.nodes.map(schedule))
+
+  // Anything still pending sits downstream of a failure
+  for (const state of Object.values(run.nodes)) {
+    if (state.status === 'pending') state.status = 'skipped'
+  }
+
+  const failed = graph.nodes.filter((node) => run.nodes[node.id].status === 'failed')
+  const outputNodes = graph.nodes.filter((node) => node.type === 'Output' && run.nodes[node.id].status === 'completed')
+  const finalNodes = outputNodes.length > 0 ? outputNodes : graph.nodes.filter((node) => run.nodes[node.id].status === 'completed')
+
+  run.status = failed.length > 0 ? 'failed' : 'completed'
+  run.output = mergeContexts(finalNodes.map((node) => run.nodes[node.id].output))
+  if (failed.length > 0) {
+    run.error = failed.map((node) => `${node.id}: ${run.nodes[node.id].error}`).join('; ')
+  }
+  run.completed_at = new Date().toISOString()
+  await save()
+
+  if (run.status === 'failed') {
+    return { success: false, status: 502, run, error: run.error }
+  }
+  return { success: true, run }
+}
+
+/**
+ * Stored state of a workflow run
+ */
+export async function getWorkflowRun(id: string): Promise<WorkflowRun | null> {
+  if (!/^[\w-]+$/.test(id)) return null
+  return readJsonFile<WorkflowRun>(runFile(id))
+}
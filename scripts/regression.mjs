@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * Regression CLI
+ *
+ * Runs the Sentinel golden set through a running app's /api/regression route
+ * and prints pass/fail and score drift per case. Exits non-zero when any case
+ * fails, so it can gate prompt or model changes in CI.
+ *
+ * Usage:
+ *   node scripts/regression.mjs [--mock] [--provider=<lyzr|openai|mock>] [--set=<golden_set.json>] [--url=<base url>]
+ *
+ * The base URL defaults to SENTINEL_URL or http://localhost:3333.
+ */
+
+import { readFile } from 'fs/promises'
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((arg) => {
+    const [key, value] = arg.replace(/^--/, '').split('=')
+    return [key, value ?? true]
+  })
+)
+
+const baseUrl = (args.url || process.env.SENTINEL_URL || 'http://localhost:3333').replace(/\/$/, '')
+const provider = args.mock ? 'mock' : args.provider || undefined
+
+const formatDrift = (drift = {}) =>
+  Object.entries(drift)
+    .filter(([, change]) => change !== 0)
+    .map(([dimension, change]) => `${dimension} ${change > 0 ? '+' : ''}${change}`)
+    .join(', ')
+
+async function main() {
+  const golden_set = args.set ? JSON.parse(await readFile(args.set, 'utf8')) : undefined
+
+  const response = await fetch(`${baseUrl}/api/regression`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ provider, golden_set }),
+  })
+  const data = await response.json()
+
+  if (!data.success) {
+    console.error(`Regression run failed: ${data.error}`)
+    for (const error of data.errors || []) console.error(`  - ${error}`)
+    process.exit(2)
+  }
+
+  const { run } = data
+  console.log(`Golden set ${run.golden_set_version} · provider ${run.provider || 'configured'}`)
+  console.log('')
+
+  for (const result of run.results) {
+    const verdict = result.verdict || 'ERROR'
+    console.log(`${result.passed ? 'PASS' : 'FAIL'}  ${result.id}  ${verdict} (expected ${result.expected_verdict})`)
+    for (const failure of result.failures) console.log(`        ${failure}`)
+    const drift = formatDrift(result.drift)
+    if (drift) console.log(`        drift: ${drift}`)
+  }
+
+  console.log('')
+  console.log(`${run.passed} passed, ${run.failed} failed`)
+  if (run.previous_run_id) {
+    console.log(`Mean drift vs ${run.previous_run_id}: ${formatDrift(run.drift) || 'none'}`)
+  } else {
+    console.log('No previous run on this provider to compare against')
+  }
+
+  process.exit(run.failed > 0 ? 1 : 0)
+}
+
+main().catch((error) => {
+  console.error(`Regression run failed: ${error.message}`)
+  process.exit(2)
+})
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * Audit Chain CLI
+ *
+ * Asks a running app's /api/assessments/verify route to walk the hash chain
+ * over stored assessments and prints every broken or missing link. Exits
+ * non-zero when the chain does not verify.
+ *
+ * Usage:
+ *   node scripts/verify-chain.mjs [--url=<base url>] [--head=<expected head hash>]
+ *
+ * Pass the head hash printed by a previous check as --head to also detect
+ * records removed from the end of the log. The base URL defaults to
+ * SENTINEL_URL or http://localhost:3333.
+ */
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((arg) => {
+    const [key, value] = arg.replace(/^--/, '').split('=')
+    return [key, value ?? true]
+  })
+)
+
+const baseUrl = (args.url || process.env.SENTINEL_URL || 'http://localhost:3333').replace(/\/$/, '')
+
+async function main() {
+  const query = typeof args.head === 'string' ? `?head=${encodeURIComponent(args.head)}` : ''
+  const response = await fetch(`${baseUrl}/api/assessments/verify${query}`)
+  const data = await response.json()
+
+  if (!data.success) {
+    console.error(`Chain verification failed: ${data.error}`)
+    process.exit(2)
+  }
+
+  console.log(`${data.total} records · ${data.chained} chained · ${data.legacy} legacy`)
+  for (const issue of data.issues) {
+    console.log(`BROKEN  [${issue.kind}] ${issue.message}`)
+  }
+
+  if (data.head) {
+    console.log(`Head: #${data.head.sequence} ${data.head.id} ${data.head.hash}`)
+  }
+
+  console.log(data.valid ? 'Chain verified' : 'Chain verification FAILED')
+  process.exit(data.valid ? 0 : 1)
+}
+
+main().catch((error) => {
+  console.error(`Chain verification failed: ${error.message}`)
+  process.exit(2)
+})